@@ -0,0 +1,101 @@
+// Interface for storing blame information (one entry per commit found in the file)
+export interface BlameInfo {
+  hash: string;
+  // Zero-based line numbers in the blamed file
+  lines: number[];
+  // One-based line numbers in the commit's version of the file, parallel to `lines`
+  originalLines: number[];
+  author: string;
+  authorMail: string;
+  // Seconds since the epoch
+  authorTime: number;
+  committer: string;
+  committerMail: string;
+  committerTime: number;
+  summary: string;
+}
+
+// The first line of every porcelain group: "<hash> <original line> <final line> [<group size>]"
+const HEADER_PATTERN = /^([0-9a-f]{40,64}) (\d+) (\d+)(?: \d+)?$/;
+
+/**
+ * Parse the output of `git blame --porcelain` (or `--line-porcelain`) into one BlameInfo per commit.
+ * Commit metadata is only printed the first time a commit appears, so it is collected per hash.
+ */
+export function parsePorcelainBlame(output: string): BlameInfo[] {
+  const infos = new Map<string, BlameInfo>();
+  let current: BlameInfo | undefined;
+  let originalLine = 0;
+  let finalLine = 0;
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('\t')) {
+      // Content line: closes the current group
+      if (current) {
+        current.lines.push(finalLine - 1);
+        current.originalLines.push(originalLine);
+      }
+      continue;
+    }
+
+    const header = line.match(HEADER_PATTERN);
+    if (header) {
+      const hash = header[1];
+      originalLine = parseInt(header[2], 10);
+      finalLine = parseInt(header[3], 10);
+      current = infos.get(hash);
+      if (!current) {
+        current = {
+          hash,
+          lines: [],
+          originalLines: [],
+          author: '',
+          authorMail: '',
+          authorTime: 0,
+          committer: '',
+          committerMail: '',
+          committerTime: 0,
+          summary: ''
+        };
+        infos.set(hash, current);
+      }
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+    const separator = line.indexOf(' ');
+    const key = separator === -1 ? line : line.substring(0, separator);
+    const value = separator === -1 ? '' : line.substring(separator + 1);
+    switch (key) {
+      case 'author':
+        current.author = value;
+        break;
+      case 'author-mail':
+        current.authorMail = stripAngleBrackets(value);
+        break;
+      case 'author-time':
+        current.authorTime = parseInt(value, 10);
+        break;
+      case 'committer':
+        current.committer = value;
+        break;
+      case 'committer-mail':
+        current.committerMail = stripAngleBrackets(value);
+        break;
+      case 'committer-time':
+        current.committerTime = parseInt(value, 10);
+        break;
+      case 'summary':
+        current.summary = value;
+        break;
+    }
+  }
+
+  return Array.from(infos.values());
+}
+
+function stripAngleBrackets(mail: string): string {
+  return mail.replace(/^<(.*)>$/, '$1');
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { SidebarProvider } from './SidebarProvider';
+import { CONFIGURATION_SECTION } from './configuration';
+import { formatRelativeTime } from './timeFormat';
+
+/**
+ * CodeLenses above the first line of every highlighted block, naming the commit it comes from
+ * ("a1b2c3d · Fix retry backoff · alice · 3 weeks ago") with actions for that commit.
+ */
+export class CommitCodeLensProvider implements vscode.CodeLensProvider {
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+  private _disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly _sidebarProvider: SidebarProvider) {
+    this._disposables.push(
+      this._sidebarProvider.onDidChangeCommits(() => this._onDidChangeCodeLenses.fire()),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration(`${CONFIGURATION_SECTION}.codeLens`)
+          || event.affectsConfiguration(`${CONFIGURATION_SECTION}.blame`)) {
+          this._onDidChangeCodeLenses.fire();
+        }
+      })
+    );
+  }
+
+  public async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+    const enabled = vscode.workspace.getConfiguration(CONFIGURATION_SECTION).get<boolean>('codeLens.enabled', true);
+    const commits = this._sidebarProvider.getHighlightCommits();
+    if (!enabled || !this._sidebarProvider.isHighlightingEnabled || commits.length === 0 || document.uri.scheme !== 'file') {
+      return [];
+    }
+
+    const service = this._sidebarProvider.gitBlameService;
+    const filePath = document.uri.fsPath;
+    const repositoryRoot = await service.getRepositoryRoot(filePath);
+    const lenses: vscode.CodeLens[] = [];
+    // One blame (or diff pass) for all commits; only commits with blocks here remain
+    const blocksByCommit = await service.getHighlightedRangesByCommit(filePath, commits);
+    for (const [hash, blocks] of blocksByCommit) {
+      if (token.isCancellationRequested) {
+        return [];
+      }
+      const details = repositoryRoot ? await service.getCommitDetails(hash, repositoryRoot) : undefined;
+      const summary = [hash.substring(0, 7)];
+      if (details) {
+        summary.push(details.subject, details.author);
+        if (details.authorTime > 0) {
+          summary.push(formatRelativeTime(details.authorTime));
+        }
+      }
+      const title = summary.filter(part => part.length > 0).join(' · ');
+
+      for (const block of blocks) {
+        if (block.start >= document.lineCount) {
+          continue;
+        }
+        const range = new vscode.Range(block.start, 0, block.start, 0);
+        lenses.push(
+          // An empty command renders the summary as plain text
+          new vscode.CodeLens(range, { title, command: '' }),
+          new vscode.CodeLens(range, {
+            title: '$(diff) Show commit diff',
+            command: 'commit-hash-highlighter.openCommitDiff',
+            arguments: [hash, repositoryRoot]
+          }),
+          new vscode.CodeLens(range, {
+            title: '$(eye-closed) Hide this commit',
+            command: 'commit-hash-highlighter.toggleCommit',
+            arguments: [{ type: 'commit', hash, enabled: true }]
+          }),
+          new vscode.CodeLens(range, {
+            title: '$(arrow-down) Next block from this commit',
+            command: 'commit-hash-highlighter.nextHighlight',
+            arguments: [hash, block.end]
+          })
+        );
+      }
+    }
+    return lenses;
+  }
+
+  public dispose() {
+    this._disposables.forEach(disposable => disposable.dispose());
+    this._onDidChangeCodeLenses.dispose();
+  }
+}
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+
+// Key under which user-pinned colors are stored in the workspace state
+const PINNED_COLORS_KEY = 'commitHashHighlighter.pinnedColors';
+
+// Default palette; commits are assigned these colors in the order they were entered
+const DEFAULT_PALETTE = [
+  '#ffd700', // gold
+  '#4fc1ff', // sky blue
+  '#73c991', // green
+  '#f078b4', // pink
+  '#ff8c3c', // orange
+  '#b48cff', // purple
+  '#40c8c8', // teal
+  '#f45b5b'  // red
+];
+
+export class CommitColorRegistry {
+  private _pinnedColors: Map<string, string>;
+  private _commitIndexes: Map<string, number> = new Map();
+
+  constructor(private readonly _state: vscode.Memento) {
+    const stored = this._state.get<Record<string, string>>(PINNED_COLORS_KEY, {});
+    this._pinnedColors = new Map(Object.entries(stored));
+  }
+
+  /**
+   * Set the commits currently being highlighted. Palette colors are handed out in this order,
+   * so the same list always produces the same colors.
+   */
+  public setActiveCommits(commits: string[]) {
+    this._commitIndexes = new Map(commits.map((commit, index) => [commit, index]));
+  }
+
+  /**
+   * Get the color (as #rrggbb) used for a commit: its pinned color if any, otherwise a palette color.
+   */
+  public getColor(commit: string): string {
+    const pinned = this._pinnedColors.get(commit);
+    if (pinned) {
+      return pinned;
+    }
+    const index = this._commitIndexes.get(commit) ?? 0;
+    return DEFAULT_PALETTE[index % DEFAULT_PALETTE.length];
+  }
+
+  public isPinned(commit: string): boolean {
+    return this._pinnedColors.has(commit);
+  }
+
+  /**
+   * Pin a custom color to the given commits and persist it.
+   */
+  public async pinColor(commits: string[], color: string): Promise<void> {
+    if (!/^#[0-9a-fA-F]{6}$/.test(color)) {
+      console.warn(`Ignoring invalid color: ${color}`);
+      return;
+    }
+    commits.forEach(commit => this._pinnedColors.set(commit, color.toLowerCase()));
+    await this._save();
+  }
+
+  /**
+   * Remove pinned colors from the given commits so they fall back to the palette.
+   */
+  public async unpinColor(commits: string[]): Promise<void> {
+    commits.forEach(commit => this._pinnedColors.delete(commit));
+    await this._save();
+  }
+
+  private async _save(): Promise<void> {
+    await this._state.update(PINNED_COLORS_KEY, Object.fromEntries(this._pinnedColors));
+  }
+}
+
+/**
+ * Convert a #rrggbb color into a CSS rgba() string with the given opacity.
+ */
+export function toRgba(color: string, alpha: number): string {
+  const red = parseInt(color.slice(1, 3), 16);
+  const green = parseInt(color.slice(3, 5), 16);
+  const blue = parseInt(color.slice(5, 7), 16);
+  return `rgba(${red}, ${green}, ${blue}, ${alpha})`;
+}
@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as util from 'util';
+
+/**
+ * Read-only documents showing `git show` output for a commit, used by the "Open commit diff" actions.
+ */
+export class CommitDiffProvider implements vscode.TextDocumentContentProvider {
+  public static readonly scheme = 'commit-hash-highlighter';
+
+  /**
+   * Build the URI of the diff document for a commit in the repository at `cwd`.
+   */
+  public static uriFor(hash: string, cwd: string): vscode.Uri {
+    return vscode.Uri.from({
+      scheme: CommitDiffProvider.scheme,
+      path: `/${hash.substring(0, 8)}.diff`,
+      query: JSON.stringify({ hash, cwd })
+    });
+  }
+
+  /**
+   * Open the diff of a commit as a read-only document.
+   */
+  public static async open(hash: string, cwd?: string) {
+    const repositoryRoot = cwd ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!repositoryRoot) {
+      vscode.window.showErrorMessage('No repository found to show the commit diff');
+      return;
+    }
+    const document = await vscode.workspace.openTextDocument(CommitDiffProvider.uriFor(hash, repositoryRoot));
+    await vscode.languages.setTextDocumentLanguage(document, 'diff');
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+
+  public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const { hash, cwd } = JSON.parse(uri.query) as { hash: string; cwd: string };
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await execFilePromise(
+        'git',
+        ['show', '--stat', '--patch', '--format=fuller', hash],
+        { cwd, maxBuffer: 64 * 1024 * 1024 }
+      );
+      return stdout;
+    } catch (error) {
+      console.error(`Error showing commit ${hash}:`, error);
+      return `Failed to show commit ${hash}: ${error}`;
+    }
+  }
+}
@@ -0,0 +1,675 @@
+import * as cp from 'child_process';
+import * as util from 'util';
+import { LruCache } from './LruCache';
+import {
+  AUTHOR_RECORD_FORMAT, describeLineFilter, isLineFilterEmpty, LineFilter, matchesLineFilter, parseAuthorRecords,
+  parseLineFilter, ParsedLineFilter
+} from './lineFilter';
+
+// How a sidebar entry was interpreted; a filter selects lines through blame instead of listing commits
+export type ResolvedEntryKind = 'commit' | 'range' | 'query' | 'changeId' | 'filter';
+
+// Interface describing how a single sidebar entry expanded into commits
+export interface ResolvedEntry {
+  input: string;
+  kind: ResolvedEntryKind;
+  commits: string[];
+  // Root of every repository each commit was found in
+  commitRepositories: Map<string, string[]>;
+  error?: string;
+  // Commits an ambiguous short hash could stand for, for the user to pick from
+  candidates?: CommitCandidate[];
+  // Commits reachable from HEAD with the same patch-id as the entered commit (patch-id matching only)
+  patchEquivalents?: PatchEquivalents;
+  // Remark shown under the entry, such as a filter's commit list being cut short
+  note?: string;
+}
+
+// A line filter checked and, where valid, resolved to the commits it matches
+export interface ResolvedFilter {
+  entry: ResolvedEntry;
+  parsed?: ParsedLineFilter;
+  // Recent commits reachable from HEAD matching the filter, with the repositories they were found in.
+  // Only the Explorer badges use them: editors match every blamed line against the filter itself
+  matchingCommits: Map<string, string[]>;
+}
+
+// How an entered commit was matched by patch-id
+export interface PatchEquivalents {
+  original: string;
+  equivalents: string[];
+  // The entered commit is no longer reachable from HEAD, so only its equivalents are highlighted
+  rebased: boolean;
+}
+
+// Options for resolving entries
+export interface ResolveOptions {
+  // Also match commits reachable from HEAD with the same `git patch-id` as an entered commit
+  matchPatchIds?: boolean;
+}
+
+// A commit matching an ambiguous short hash
+export interface CommitCandidate {
+  hash: string;
+  subject: string;
+  // Author date, YYYY-MM-DD
+  date: string;
+}
+
+// Result of resolving an entry in a single repository
+interface RepositoryResolution {
+  kind: ResolvedEntryKind;
+  commits: string[];
+  error?: string;
+  candidates?: CommitCandidate[];
+}
+
+// git log options that write files or run external programs are never passed through
+const BLOCKED_LOG_OPTIONS = ['--output', '--ext-diff', '--textconv', '--exec'];
+
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+// Gerrit Change-Ids are an 'I' followed by the 40 hex digits of a SHA-1
+const CHANGE_ID_PATTERN = /^I[0-9a-f]{40}$/;
+
+// Abbreviated object names git can disambiguate (it needs at least 4 hex digits)
+const SHORT_HASH_PATTERN = /^[0-9a-fA-F]{4,63}$/;
+
+// A full object name: SHA-1, or SHA-256 in repositories using it
+const FULL_HASH_PATTERN = /^(?:[0-9a-f]{40}|[0-9a-f]{64})$/;
+
+// `git log` options producing the patches fed to patch-id. Both the entered commit and the commits
+// on HEAD go through the same options, pinned so that user config (rename detection, diff algorithm,
+// prefixes, textconv, abbreviated headers...) cannot make the same change hash differently.
+const PATCH_ID_LOG_ARGS = [
+  '-p', '--format=commit %H', '--no-renames', '--diff-algorithm=myers', '-U3', '--src-prefix=a/', '--dst-prefix=b/',
+  '--no-relative', '--no-textconv', '--no-color', '--no-ext-diff', '--no-decorate', '--root'
+];
+
+// Most commits reachable from HEAD whose patch-ids are compared against the entered commits
+const PATCH_ID_SEARCH_LIMIT = 2000;
+
+// Most commits a line filter lists per repository (and author identity) for the Explorer badges
+const FILTER_COMMIT_LIMIT = 1000;
+
+export class CommitResolver {
+  // Patch-id of each commit (undefined for merges and empty commits); commits are immutable
+  private _patchIds: Map<string, string | undefined> = new Map();
+  // Patch-id → commits reachable from HEAD, keyed by repository, HEAD and search start
+  private _headPatchIds: LruCache<string, Map<string, string[]>> = new LruCache(8);
+
+  /**
+   * Expand the raw sidebar entries (hashes, refs, revision ranges and git log queries)
+   * into the commits they stand for, in every given repository. Entries are resolved
+   * independently, so one bad entry does not prevent the others from highlighting; an
+   * entry only fails if it resolves in none of the repositories.
+   */
+  public async resolveEntries(entries: string[], repositories: string[], options: ResolveOptions = {}): Promise<ResolvedEntry[]> {
+    const results: ResolvedEntry[] = [];
+    for (const input of entries) {
+      const commitRepositories = new Map<string, string[]>();
+      let firstResolution: RepositoryResolution | undefined;
+      let kind: ResolvedEntryKind | undefined;
+      const candidates: CommitCandidate[] = [];
+      for (const repository of repositories) {
+        const resolution = await this.resolveEntry(input, repository);
+        firstResolution = firstResolution ?? resolution;
+        candidates.push(...(resolution.candidates ?? []).filter(candidate => !candidates.some(known => known.hash === candidate.hash)));
+        if (resolution.commits.length === 0) {
+          continue;
+        }
+        kind = kind ?? resolution.kind;
+        for (const commit of resolution.commits) {
+          commitRepositories.set(commit, [...(commitRepositories.get(commit) ?? []), repository]);
+        }
+      }
+      if (kind) {
+        results.push({ input, kind, commits: Array.from(commitRepositories.keys()), commitRepositories });
+      } else if (candidates.length > 0) {
+        results.push({
+          input,
+          kind: 'commit',
+          commits: [],
+          commitRepositories,
+          error: `Short hash '${input.trim()}' is ambiguous: it matches ${candidates.length} commits`,
+          candidates
+        });
+      } else {
+        results.push({
+          input,
+          kind: firstResolution?.kind ?? 'commit',
+          commits: [],
+          commitRepositories,
+          error: firstResolution?.error ?? 'No git repository found in the workspace'
+        });
+      }
+    }
+    if (options.matchPatchIds) {
+      await this.addPatchEquivalents(results);
+    }
+    return results;
+  }
+
+  /**
+   * Resolve the commits of the checked-out branch: those between its merge-base with `base` and HEAD,
+   * in every given repository. `base` is a ref such as `main`, or `upstream` for the branch's upstream.
+   */
+  public async resolveBranch(base: string, repositories: string[]): Promise<ResolvedEntry> {
+    const baseRef = base === 'upstream' ? '@{upstream}' : base;
+    const input = `My branch since ${base}`;
+    const commitRepositories = new Map<string, string[]>();
+    if (baseRef.length === 0 || baseRef.startsWith('-')) {
+      return { input, kind: 'range', commits: [], commitRepositories, error: `'${base}' is not a valid base ref` };
+    }
+    let firstError: string | undefined;
+    let resolvedAnywhere = false;
+    const execFilePromise = util.promisify(cp.execFile);
+    for (const repository of repositories) {
+      let mergeBase: string;
+      try {
+        const { stdout } = await execFilePromise('git', ['merge-base', baseRef, 'HEAD'], { cwd: repository });
+        mergeBase = stdout.trim();
+      } catch (error) {
+        // No such base ref, no upstream, or unrelated histories in this repository
+        firstError = firstError ?? describeGitError(error);
+        continue;
+      }
+      const result = await this.runLog([`${mergeBase}..HEAD`], repository);
+      if (result.error) {
+        firstError = firstError ?? result.error;
+        continue;
+      }
+      resolvedAnywhere = true;
+      for (const commit of result.commits) {
+        commitRepositories.set(commit, [...(commitRepositories.get(commit) ?? []), repository]);
+      }
+    }
+    if (!resolvedAnywhere) {
+      return { input, kind: 'range', commits: [], commitRepositories, error: firstError ?? 'No git repository found in the workspace' };
+    }
+    return { input, kind: 'range', commits: Array.from(commitRepositories.keys()), commitRepositories };
+  }
+
+  /**
+   * Check a line filter before it is handed to blame. Filters are matched against the author and
+   * date of the commit blame reports for each line (under its recorded and mailmapped names), so
+   * the entry lists no commits. The most recent matching commits of each repository are looked up
+   * only to find the files the Explorer badges count.
+   */
+  public async resolveFilter(filter: LineFilter, repositories: string[]): Promise<ResolvedFilter> {
+    const entry: ResolvedEntry = { input: describeLineFilter(filter), kind: 'filter', commits: [], commitRepositories: new Map() };
+    const matchingCommits = new Map<string, string[]>();
+    if (isLineFilterEmpty(filter)) {
+      return { entry: { ...entry, error: 'Enter an author, a date range or both' }, matchingCommits };
+    }
+    let parsed: ParsedLineFilter;
+    try {
+      parsed = parseLineFilter(filter);
+    } catch (error) {
+      return { entry: { ...entry, error: (error as Error).message }, matchingCommits };
+    }
+    let truncated = false;
+    for (const repository of repositories) {
+      const result = await this.listFilterCommits(parsed, repository);
+      truncated = truncated || result.truncated;
+      for (const commit of result.commits) {
+        matchingCommits.set(commit, [...(matchingCommits.get(commit) ?? []), repository]);
+      }
+    }
+    const note = truncated
+      ? `Explorer badges cover the ${FILTER_COMMIT_LIMIT} most recent matching commits; files only older ones changed are counted once opened`
+      : undefined;
+    return { entry: { ...entry, note }, parsed, matchingCommits };
+  }
+
+  /**
+   * Short names of the local and remote-tracking branches of a repository.
+   */
+  public async listBranches(cwd: string): Promise<string[]> {
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await execFilePromise(
+        'git',
+        ['for-each-ref', '--format=%(refname:short)', 'refs/heads', 'refs/remotes'],
+        { cwd, maxBuffer: GIT_MAX_BUFFER }
+      );
+      return stdout.split('\n').map(line => line.trim()).filter(line => line.length > 0 && !line.endsWith('/HEAD'));
+    } catch (error) {
+      console.error(`Error listing the branches of ${cwd}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Merge the commit → repositories maps of all resolved entries.
+   */
+  public static collectCommitRepositories(entries: ResolvedEntry[]): Map<string, string[]> {
+    const merged = new Map<string, string[]>();
+    for (const entry of entries) {
+      entry.commitRepositories.forEach((repositories, commit) => {
+        const known = merged.get(commit) ?? [];
+        merged.set(commit, Array.from(new Set([...known, ...repositories])));
+      });
+    }
+    return merged;
+  }
+
+  /**
+   * Collect the distinct commits of all resolved entries, keeping their first-seen order.
+   */
+  public static collectCommits(entries: ResolvedEntry[]): string[] {
+    const commits = new Set<string>();
+    for (const entry of entries) {
+      entry.commits.forEach(commit => commits.add(commit));
+    }
+    return Array.from(commits);
+  }
+
+  private async resolveEntry(input: string, cwd: string): Promise<RepositoryResolution> {
+    const tokens = splitArguments(input);
+    if (tokens.length === 0) {
+      return { kind: 'query', commits: [], error: 'Empty entry' };
+    }
+
+    // Several words or options: treat the entry as a git log query
+    if (tokens.length > 1 || tokens[0].startsWith('-')) {
+      return this.resolveLogQuery(tokens, cwd);
+    }
+
+    const token = tokens[0];
+    if (CHANGE_ID_PATTERN.test(token)) {
+      return this.resolveChangeId(token, cwd);
+    }
+    if (isRevisionRange(token)) {
+      const result = await this.runLog([token], cwd);
+      return { kind: 'range', ...result };
+    }
+
+    // Hashes of any length, refs and other revisions are normalized to the full commit hash
+    // that blame reports, so short hashes highlight the same lines they badge in the Explorer
+    const commit = await this.revParse(token, cwd);
+    if (commit) {
+      return { kind: 'commit', commits: [commit] };
+    }
+    if (SHORT_HASH_PATTERN.test(token)) {
+      const candidates = await this.findCandidates(token, cwd);
+      if (candidates.length > 0) {
+        return { kind: 'commit', commits: [], candidates };
+      }
+    }
+    if (/^I[0-9a-fA-F]+$/.test(token)) {
+      return { kind: 'changeId', commits: [], error: 'Change-Ids must be \'I\' followed by 40 lowercase hex digits' };
+    }
+    return { kind: 'commit', commits: [], error: `Unknown revision '${token}'` };
+  }
+
+  // Let single-commit entries also match the commits reachable from HEAD with the same patch-id
+  // (cherry-picks, rebased copies); an entered commit that was rebased away is replaced by them
+  private async addPatchEquivalents(entries: ResolvedEntry[]) {
+    const singleCommitEntries = entries.filter(entry => entry.kind === 'commit' && entry.commits.length === 1);
+    const originalsByRepository = new Map<string, string[]>();
+    for (const entry of singleCommitEntries) {
+      for (const repository of entry.commitRepositories.get(entry.commits[0]) ?? []) {
+        originalsByRepository.set(repository, [...(originalsByRepository.get(repository) ?? []), entry.commits[0]]);
+      }
+    }
+
+    const equivalentsByRepository = new Map<string, Map<string, string[]>>();
+    for (const [repository, originals] of originalsByRepository) {
+      const patchIds = new Map<string, string>();
+      for (const commit of originals) {
+        const patchId = await this.getPatchId(commit, repository);
+        if (patchId) {
+          patchIds.set(commit, patchId);
+        }
+      }
+      if (patchIds.size === 0) {
+        continue;
+      }
+      // Rebased copies keep the author date and get a newer commit date, so older history can be skipped
+      const since = Math.min(...await Promise.all(Array.from(patchIds.keys(), commit => this.getAuthorTime(commit, repository))));
+      const headPatchIds = await this.getHeadPatchIds(repository, since);
+      const equivalents = new Map<string, string[]>();
+      patchIds.forEach((patchId, commit) => {
+        const matches = (headPatchIds.get(patchId) ?? []).filter(match => match !== commit);
+        if (matches.length > 0) {
+          equivalents.set(commit, matches);
+        }
+      });
+      equivalentsByRepository.set(repository, equivalents);
+    }
+
+    for (const entry of singleCommitEntries) {
+      const original = entry.commits[0];
+      const found = new Set<string>();
+      for (const repository of entry.commitRepositories.get(original) ?? []) {
+        const matches = equivalentsByRepository.get(repository)?.get(original);
+        if (!matches) {
+          continue;
+        }
+        matches.forEach(match => {
+          found.add(match);
+          entry.commitRepositories.set(match, [...(entry.commitRepositories.get(match) ?? []), repository]);
+        });
+        if (!await this.isReachableFromHead(original, repository)) {
+          const remaining = (entry.commitRepositories.get(original) ?? []).filter(root => root !== repository);
+          if (remaining.length > 0) {
+            entry.commitRepositories.set(original, remaining);
+          } else {
+            entry.commitRepositories.delete(original);
+          }
+        }
+      }
+      if (found.size > 0) {
+        entry.commits = Array.from(entry.commitRepositories.keys());
+        entry.patchEquivalents = { original, equivalents: Array.from(found), rebased: !entry.commitRepositories.has(original) };
+      }
+    }
+  }
+
+  // The stable patch-id of a commit's diff (undefined for merges and empty commits)
+  private async getPatchId(commit: string, cwd: string): Promise<string | undefined> {
+    if (this._patchIds.has(commit)) {
+      return this._patchIds.get(commit);
+    }
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout: diff } = await execFilePromise(
+        'git',
+        ['log', '-1', ...PATCH_ID_LOG_ARGS, commit],
+        { cwd, maxBuffer: GIT_MAX_BUFFER }
+      );
+      const lines = await this.runPatchId(diff, cwd);
+      const patchId = lines.length > 0 ? lines[0][0] : undefined;
+      this._patchIds.set(commit, patchId);
+      return patchId;
+    } catch (error) {
+      console.error(`Error computing the patch-id of ${commit}:`, error);
+      return undefined;
+    }
+  }
+
+  // Patch-ids of the (non-merge) commits reachable from HEAD, committed since `since` (seconds since the epoch)
+  private async getHeadPatchIds(cwd: string, since: number): Promise<Map<string, string[]>> {
+    const head = await this.revParse('HEAD', cwd);
+    const cacheKey = `${cwd}\0${head}\0${since}`;
+    const cached = this._headPatchIds.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+    const byPatchId = new Map<string, string[]>();
+    if (!head) {
+      return byPatchId;
+    }
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout: log } = await execFilePromise(
+        'git',
+        ['log', ...PATCH_ID_LOG_ARGS, '--no-merges', `--max-count=${PATCH_ID_SEARCH_LIMIT}`, `--since=@${since}`, head],
+        { cwd, maxBuffer: GIT_MAX_BUFFER }
+      );
+      for (const [patchId, commit] of await this.runPatchId(log, cwd)) {
+        // patch-id reports commits it could not read a hash for as all zeros; those must never match
+        if (!FULL_HASH_PATTERN.test(commit) || /^0+$/.test(commit)) {
+          continue;
+        }
+        byPatchId.set(patchId, [...(byPatchId.get(patchId) ?? []), commit]);
+      }
+      this._headPatchIds.set(cacheKey, byPatchId);
+    } catch (error) {
+      console.error(`Error computing patch-ids in ${cwd}:`, error);
+    }
+    return byPatchId;
+  }
+
+  // Feed patches to `git patch-id --stable` and return its [patch-id, commit] pairs
+  private async runPatchId(patches: string, cwd: string): Promise<[string, string][]> {
+    const execFilePromise = util.promisify(cp.execFile);
+    const patchId = execFilePromise('git', ['patch-id', '--stable'], { cwd, maxBuffer: GIT_MAX_BUFFER });
+    patchId.child.stdin?.end(patches);
+    const { stdout } = await patchId;
+    return stdout.split('\n')
+      .map(line => line.trim().split(' '))
+      .filter((fields): fields is [string, string] => fields.length === 2);
+  }
+
+  private async getAuthorTime(commit: string, cwd: string): Promise<number> {
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await execFilePromise('git', ['log', '-1', '--format=%at', commit], { cwd });
+      return Number(stdout.trim()) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async isReachableFromHead(commit: string, cwd: string): Promise<boolean> {
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      await execFilePromise('git', ['merge-base', '--is-ancestor', commit, 'HEAD'], { cwd });
+      return true;
+    } catch {
+      // Exit code 1: not an ancestor (or no HEAD yet)
+      return false;
+    }
+  }
+
+  /**
+   * Find every commit on any local branch or tag whose Change-Id trailer is exactly `changeId`.
+   * Cherry-picks across release branches and amended patchsets all carry the same trailer.
+   */
+  private async resolveChangeId(changeId: string, cwd: string): Promise<RepositoryResolution> {
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await execFilePromise(
+        'git',
+        [
+          'log', '--branches', '--tags', 'HEAD',
+          '--fixed-strings', `--grep=${changeId}`,
+          '--format=%H%x00%(trailers:key=Change-Id,valueonly,separator=%x01)%x00'
+        ],
+        { cwd, maxBuffer: GIT_MAX_BUFFER }
+      );
+      const commits = parseChangeIdCommits(stdout, changeId);
+      if (commits.length === 0) {
+        return { kind: 'changeId', commits, error: 'No commit with this Change-Id on any local branch or tag' };
+      }
+      return { kind: 'changeId', commits };
+    } catch (error) {
+      console.error(`Error resolving Change-Id ${changeId}:`, error);
+      return { kind: 'changeId', commits: [], error: describeGitError(error) };
+    }
+  }
+
+  private async resolveLogQuery(tokens: string[], cwd: string): Promise<RepositoryResolution> {
+    const blocked = findBlockedLogOption(tokens);
+    if (blocked) {
+      return { kind: 'query', commits: [], error: `Option '${blocked}' is not allowed` };
+    }
+    const result = await this.runLog(tokens, cwd);
+    return { kind: 'query', ...result };
+  }
+
+  // Run git log with the given revisions/options and return the listed commit hashes
+  private async runLog(args: string[], cwd: string): Promise<{ commits: string[]; error?: string }> {
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await execFilePromise(
+        'git',
+        ['log', ...args, '--format=%H'],
+        { cwd, maxBuffer: GIT_MAX_BUFFER }
+      );
+      const commits = stdout.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+      return { commits };
+    } catch (error) {
+      console.error(`Error running git log ${args.join(' ')}:`, error);
+      return { commits: [], error: describeGitError(error) };
+    }
+  }
+
+  // Recent commits reachable from HEAD matching a line filter. git's --author only sees the mailmapped
+  // identity (or, without mailmap, the recorded one), so an author is searched under both; the
+  // results are then matched exactly like blamed lines are. --since applies to the commit date,
+  // which is never before the author date, so it only narrows the search
+  private async listFilterCommits(filter: ParsedLineFilter, cwd: string): Promise<{ commits: string[]; truncated: boolean }> {
+    const execFilePromise = util.promisify(cp.execFile);
+    const args = ['log', `--format=${AUTHOR_RECORD_FORMAT}`, `--max-count=${FILTER_COMMIT_LIMIT}`];
+    if (filter.since !== undefined) {
+      args.push(`--since=@${filter.since}`);
+    }
+    const searches = filter.author === undefined
+      ? [args]
+      : [['--use-mailmap'], ['--no-use-mailmap']].map(mailmap => [...args, ...mailmap, '-i', '-F', `--author=${filter.author}`]);
+    const commits = new Set<string>();
+    let truncated = false;
+    for (const search of searches) {
+      try {
+        const { stdout } = await execFilePromise('git', search, { cwd, maxBuffer: GIT_MAX_BUFFER });
+        const authors = parseAuthorRecords(stdout);
+        truncated = truncated || authors.size >= FILTER_COMMIT_LIMIT;
+        authors.forEach((author, commit) => {
+          if (matchesLineFilter(author, filter)) {
+            commits.add(commit);
+          }
+        });
+      } catch (error) {
+        // An empty repository has no HEAD; the filter still applies to open files
+        console.error(`Error listing commits matching a line filter in ${cwd}:`, error);
+      }
+    }
+    return { commits: Array.from(commits), truncated };
+  }
+
+  // List the commits whose hash starts with `prefix` (only called once rev-parse found it ambiguous)
+  private async findCandidates(prefix: string, cwd: string): Promise<CommitCandidate[]> {
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout: objects } = await execFilePromise(
+        'git',
+        ['rev-parse', `--disambiguate=${prefix.toLowerCase()}`],
+        { cwd }
+      );
+      const objectNames = objects.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+      if (objectNames.length < 2) {
+        return [];
+      }
+      // The prefix may also match trees and blobs, which cannot be highlighted
+      const typeCheck = execFilePromise(
+        'git',
+        ['cat-file', '--batch-check=%(objectname) %(objecttype)'],
+        { cwd, maxBuffer: GIT_MAX_BUFFER }
+      );
+      typeCheck.child.stdin?.end(objectNames.join('\n') + '\n');
+      const commits = (await typeCheck).stdout.split('\n')
+        .map(line => line.split(' '))
+        .filter(([, type]) => type === 'commit')
+        .map(([hash]) => hash);
+      if (commits.length === 0) {
+        return [];
+      }
+      const { stdout } = await execFilePromise(
+        'git',
+        ['log', '--no-walk=sorted', '--date=short', '--format=%H%x00%ad%x00%s', ...commits],
+        { cwd, maxBuffer: GIT_MAX_BUFFER }
+      );
+      return stdout.split('\n').filter(line => line.length > 0).map(line => {
+        const [hash, date, subject] = line.split('\0');
+        return { hash, date, subject };
+      });
+    } catch (error) {
+      console.error(`Error listing the commits matching ${prefix}:`, error);
+      return [];
+    }
+  }
+
+  // Resolve a single revision (hash, branch, tag, ...) to the commit it names
+  private async revParse(revision: string, cwd: string): Promise<string | null> {
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await execFilePromise(
+        'git',
+        ['rev-parse', '--verify', '--quiet', '--end-of-options', `${revision}^{commit}`],
+        { cwd }
+      );
+      const commit = stdout.trim();
+      return commit.length > 0 ? commit : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Whether a single token selects a set of commits through range notation (A..B, A...B, A^!, A^@).
+ */
+export function isRevisionRange(token: string): boolean {
+  return token.includes('..') || token.endsWith('^!') || token.endsWith('^@');
+}
+
+/**
+ * The first git log argument that could write files or run external programs, if any.
+ * git rejects abbreviations of these options, so a prefix check covers `--output=...` as well.
+ */
+export function findBlockedLogOption(tokens: string[]): string | undefined {
+  return tokens.find(token => BLOCKED_LOG_OPTIONS.some(option => token.startsWith(option)));
+}
+
+/**
+ * Pick the commits whose Change-Id trailer is exactly `changeId` out of `git log` output formatted
+ * as NUL-separated hash and trailer values (the values separated by \x01). `--grep` also finds
+ * commits that merely mention the Change-Id in their message; those are left out.
+ */
+export function parseChangeIdCommits(output: string, changeId: string): string[] {
+  const commits: string[] = [];
+  const fields = output.split('\0');
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    const hash = fields[i].trim();
+    const trailers = fields[i + 1].split('\x01').map(value => value.trim());
+    if (trailers.includes(changeId)) {
+      commits.push(hash);
+    }
+  }
+  return commits;
+}
+
+/**
+ * Split an entry into arguments on whitespace, honouring single and double quotes.
+ */
+export function splitArguments(text: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let hasToken = false;
+  for (const char of text.trim()) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        tokens.push(current);
+        current = '';
+        hasToken = false;
+      }
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+  if (hasToken) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+// Use the first line git wrote to stderr as a short, user-facing error
+function describeGitError(error: unknown): string {
+  const stderr = (error as { stderr?: string }).stderr;
+  const firstLine = stderr?.split('\n').find(line => line.trim().length > 0);
+  return firstLine ? firstLine.trim() : String(error);
+}
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SidebarProvider } from './SidebarProvider';
+import { LineRange } from './lineRanges';
+import { CONFIGURATION_SECTION } from './configuration';
+
+// Tree nodes: active commits, the files they touched, and their surviving line ranges
+export interface CommitNode {
+  type: 'commit';
+  hash: string;
+  enabled: boolean;
+}
+
+interface FileNode {
+  type: 'file';
+  hash: string;
+  repository: string;
+  filePath: string;
+}
+
+interface RangeNode {
+  type: 'range';
+  filePath: string;
+  range: LineRange;
+}
+
+type CommitTreeNode = CommitNode | FileNode | RangeNode;
+
+/**
+ * Native tree view listing each active commit, the files it touched and the line ranges
+ * from it that are still present in the working tree.
+ */
+export class CommitTreeProvider implements vscode.TreeDataProvider<CommitTreeNode> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<CommitTreeNode | undefined>();
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private _subjects: Map<string, string> = new Map();
+  private _disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly _sidebarProvider: SidebarProvider) {
+    this._disposables.push(
+      this._sidebarProvider.onDidChangeCommits(() => this.refresh()),
+      // Surviving ranges shift when files are saved
+      vscode.workspace.onDidSaveTextDocument(() => this.refresh()),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration(`${CONFIGURATION_SECTION}.blame`)) {
+          this.refresh();
+        }
+      })
+    );
+  }
+
+  public refresh() {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  public async getTreeItem(node: CommitTreeNode): Promise<vscode.TreeItem> {
+    switch (node.type) {
+      case 'commit': {
+        const subject = await this._getSubject(node.hash);
+        const item = new vscode.TreeItem(subject || node.hash, vscode.TreeItemCollapsibleState.Collapsed);
+        item.id = `commit:${node.hash}`;
+        item.description = node.enabled ? node.hash.substring(0, 8) : `${node.hash.substring(0, 8)} (off)`;
+        item.tooltip = `${node.hash}\n${subject}`;
+        item.iconPath = new vscode.ThemeIcon(node.enabled ? 'git-commit' : 'circle-slash');
+        item.contextValue = node.enabled ? 'commit.enabled' : 'commit.disabled';
+        return item;
+      }
+      case 'file': {
+        const item = new vscode.TreeItem(vscode.Uri.file(node.filePath), vscode.TreeItemCollapsibleState.Collapsed);
+        item.id = `file:${node.hash}:${node.filePath}`;
+        const relativeDir = path.dirname(path.relative(node.repository, node.filePath));
+        item.description = relativeDir === '.' ? '' : relativeDir;
+        if (!fs.existsSync(node.filePath)) {
+          item.description = `${item.description} (deleted)`.trim();
+          item.collapsibleState = vscode.TreeItemCollapsibleState.None;
+        }
+        item.contextValue = 'file';
+        return item;
+      }
+      case 'range': {
+        const { start, end } = node.range;
+        const label = start === end ? `Line ${start + 1}` : `Lines ${start + 1}–${end + 1}`;
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+        item.iconPath = new vscode.ThemeIcon('symbol-number');
+        item.contextValue = 'range';
+        item.command = {
+          command: 'vscode.open',
+          title: 'Reveal Highlighted Lines',
+          arguments: [
+            vscode.Uri.file(node.filePath),
+            { selection: new vscode.Range(start, 0, end, 0), preview: true }
+          ]
+        };
+        return item;
+      }
+    }
+  }
+
+  public async getChildren(node?: CommitTreeNode): Promise<CommitTreeNode[]> {
+    if (!node) {
+      return this._sidebarProvider.getActiveCommits().map(commit => ({ type: 'commit', ...commit }));
+    }
+    switch (node.type) {
+      case 'commit': {
+        const children: FileNode[] = [];
+        for (const repository of this._sidebarProvider.getCommitRepositories(node.hash)) {
+          const files = await this._sidebarProvider.gitBlameService.getFilesForCommit(node.hash, repository);
+          files.forEach(file => children.push({ type: 'file', hash: node.hash, repository, filePath: path.join(repository, file) }));
+        }
+        return children;
+      }
+      case 'file': {
+        if (!fs.existsSync(node.filePath)) {
+          return [];
+        }
+        // Ranges follow the highlight mode: surviving lines (blame) or introduced lines (diff)
+        const ranges = await this._sidebarProvider.gitBlameService.getHighlightedRanges(node.filePath, [node.hash]);
+        return ranges.map(range => ({ type: 'range', filePath: node.filePath, range }));
+      }
+      case 'range':
+        return [];
+    }
+  }
+
+  // Commit subjects are looked up once and kept, since commits are immutable
+  private async _getSubject(hash: string): Promise<string> {
+    const cached = this._subjects.get(hash);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const root = this._sidebarProvider.getCommitRepositories(hash)[0];
+    const message = root ? await this._sidebarProvider.gitBlameService.getCommitMessage(hash, root) : '';
+    const subject = message.split('\n')[0];
+    this._subjects.set(hash, subject);
+    return subject;
+  }
+
+  public dispose() {
+    this._disposables.forEach(disposable => disposable.dispose());
+    this._onDidChangeTreeData.dispose();
+  }
+}
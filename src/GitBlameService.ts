@@ -1,46 +1,144 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as util from 'util';
+import { CommitColorRegistry, toRgba } from './CommitColors';
+import { BlameInfo, parsePorcelainBlame } from './BlameParser';
+import { formatRelativeTime } from './timeFormat';
+import { groupContiguousLines, LineRange } from './lineRanges';
+import { RepositoryLocator } from './RepositoryLocator';
+import { DecorationStyle, getBlameCacheSize, getBlameOptionArgs, getDecorationStyle, getHeatmapStyle } from './configuration';
+import { HeadWatcher } from './HeadWatcher';
+import { LruCache } from './LruCache';
+import { ProcessPool } from './ProcessPool';
+import { DiffHunk, mapLineThroughHunks, parseDiffHunks } from './diffHunks';
+import { heatmapColor } from './heatmap';
+import { DocumentRevision, parseDocumentRevision } from './documentRevision';
+import { AuthorInfo, AUTHOR_RECORD_FORMAT, matchesLineFilter, parseAuthorRecords, ParsedLineFilter } from './lineFilter';
 
-// Interface for storing blame information
-interface BlameInfo {
+// Commands that may be invoked from the links in blame hovers
+const HOVER_COMMANDS = [
+  'commit-hash-highlighter.copyHash',
+  'commit-hash-highlighter.openCommitDiff',
+  'commit-hash-highlighter.removeHash'
+];
+
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+// Git processes run at once; more editors or commits queue up instead of flooding the machine
+const MAX_GIT_PROCESSES = 4;
+
+// Files counted in the background between two Explorer refreshes
+const BACKGROUND_COUNT_BATCH = 20;
+
+// Diffs from a commit's version of a file to its current contents kept for diff mode
+const HUNKS_SINCE_CACHE_SIZE = 200;
+
+// Commits whose raw and mailmapped authors are kept for matching line filters
+const COMMIT_AUTHORS_CACHE_SIZE = 10000;
+
+/**
+ * How highlighted lines are found: lines a commit last touched that survive (blame), the
+ * lines a commit's own diff introduced, followed through later history (diff), or every line
+ * shaded by the age of the commit that last touched it (heatmap).
+ */
+export type HighlightMode = 'blame' | 'diff' | 'heatmap';
+
+// Decoration types used for one highlight color
+interface CommitDecorationTypes {
+  highlight: vscode.TextEditorDecorationType;
+  minimap: vscode.TextEditorDecorationType;
+  // Lines a commit introduced that a later change overwrote (diff mode)
+  overwritten: vscode.TextEditorDecorationType;
+  // Gutter marker on the line following lines a commit deleted (diff mode)
+  deletion: vscode.TextEditorDecorationType;
+}
+
+// Where the lines of a commit's own diff are in the current version of a file (zero-based)
+export interface IntroducedLines {
+  // Added lines that are unchanged since the commit
+  surviving: number[];
+  // Lines now standing where added lines were later overwritten
+  overwritten: number[];
+  // Lines following each place the commit deleted lines
+  deletions: number[];
+}
+
+// The parts of a commit shown in a highlight hover
+type HoverCommit = Pick<BlameInfo, 'hash' | 'summary' | 'author' | 'authorMail' | 'authorTime'> & { committer?: string };
+
+// Metadata of a single commit
+export interface CommitDetails {
   hash: string;
-  lines: number[];
+  author: string;
+  authorMail: string;
+  // Seconds since the epoch
+  authorTime: number;
+  subject: string;
+  message: string;
 }
 
-// Interface for tracking highlighted files
+// Interface for tracking the files active commits touched or have highlighted lines in
 interface HighlightedFileInfo {
   uri: vscode.Uri;
-  highlightCount: number;
+  // Active commits that changed the file
+  touchingCommits: Set<string>;
+  // Surviving highlighted lines per commit (non-zero counts only)
+  commitCounts: Map<string, number>;
+  // False while the counts are carried over from an older commit set and not recounted yet
+  counted: boolean;
 }
 
+// How a file relates to the active commits, as shown in the Explorer
+type FileHighlightState = 'surviving' | 'rewritten' | 'counting';
+
 export class GitBlameService {
-  private _highlightDecorationType: vscode.TextEditorDecorationType;
-  private _minimapDecorationType: vscode.TextEditorDecorationType;
-  private _blameCache: Map<string, BlameInfo[]> = new Map();
+  private _decorationTypes: Map<string, CommitDecorationTypes> = new Map();
+  private _style: DecorationStyle = getDecorationStyle();
+  // Keyed by file path, blame options, HEAD and a hash of the blamed content, so a setting change,
+  // checkout or edit never reuses stale results; bounded by the `blame.cacheSize` setting
+  private _blameCache: LruCache<string, BlameInfo[]> = new LruCache(getBlameCacheSize());
+  private _pendingBlames: Map<string, Promise<BlameInfo[]>> = new Map();
+  private _gitPool: ProcessPool = new ProcessPool(MAX_GIT_PROCESSES);
+  // The current highlighting run per editor; starting a new one cancels the previous
+  private _highlightRuns: Map<vscode.TextEditor, vscode.CancellationTokenSource> = new Map();
+  private _fileUpdateGeneration = 0;
+  private _commitDetailsCache: Map<string, CommitDetails> = new Map();
   private _highlightedFiles: Map<string, HighlightedFileInfo> = new Map();
+  // A commit's own hunks per file; commits are immutable so these never go stale
+  private _commitHunksCache: Map<string, DiffHunk[]> = new Map();
+  // Hunks from a commit's version of a file to its current contents, keyed by a hash of those contents
+  private _hunksSinceCache: LruCache<string, DiffHunk[]> = new LruCache(HUNKS_SINCE_CACHE_SIZE);
+  // The author of each blamed commit both as recorded and as mapped by .mailmap, for line filters
+  private _commitAuthorsCache: LruCache<string, AuthorInfo> = new LruCache(COMMIT_AUTHORS_CACHE_SIZE);
   private _fileDecorationProviderDisposable: vscode.Disposable | undefined;
   private _onDidChangeFileDecorations: vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>;
+  private _onDidChangeHighlights = new vscode.EventEmitter<void>();
 
-  constructor() {
-    // Decoration style for the editor text (with a transparent yellow highlight)
-    this._highlightDecorationType = vscode.window.createTextEditorDecorationType({
-      backgroundColor: 'rgba(255, 215, 0, 0.2)',
-      borderWidth: '1px',
-      borderStyle: 'solid',
-      borderColor: 'rgba(255, 165, 0, 0.4)',
-      isWholeLine: true
-    });
-    
-    // Decoration style for the minimap/scrollbar
-    this._minimapDecorationType = vscode.window.createTextEditorDecorationType({
-      isWholeLine: true,
-      backgroundColor: 'rgba(255, 215, 0, 0.4)',
-      overviewRulerColor: 'rgba(255, 165, 0, 0.6)',
-      overviewRulerLane: vscode.OverviewRulerLane.Right
-    });
-    
+  /**
+   * Fired whenever the set of highlighted files or their highlighted line counts change.
+   */
+  public readonly onDidChangeHighlights = this._onDidChangeHighlights.event;
+
+  /**
+   * Whether highlighting (and navigation) follows blame or the commits' own diffs.
+   */
+  public highlightMode: HighlightMode = 'blame';
+
+  /**
+   * When set, lines are highlighted by who last touched them and when (as blame reports it)
+   * rather than by commit, without listing the matching commits up front.
+   */
+  public lineFilter: ParsedLineFilter | undefined;
+
+  constructor(
+    private readonly _colors: CommitColorRegistry,
+    private readonly _repositories: RepositoryLocator,
+    private readonly _heads: HeadWatcher
+  ) {
     // Create an event emitter for file decoration changes
     this._onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
 
@@ -48,134 +146,848 @@ export class GitBlameService {
     this._fileDecorationProviderDisposable = vscode.window.registerFileDecorationProvider({
       onDidChangeFileDecorations: this._onDidChangeFileDecorations.event,
       provideFileDecoration: (uri: vscode.Uri): vscode.FileDecoration | undefined => {
-        const fileKey = uri.fsPath;
-        if (this._isFileOrChildHighlighted(fileKey)) {
-          return new vscode.FileDecoration(
-            'H', // badge (optional)
-            'Contains highlighted commit code', // tooltip
-            new vscode.ThemeColor('gitDecoration.modifiedResourceForeground')
-          );
-        }
-        return undefined;
+        const fileInfo = this._highlightedFiles.get(uri.fsPath);
+        return fileInfo ? this._fileDecoration(fileInfo) : this._folderDecoration(uri.fsPath);
       }
     });
   }
 
-  // Check if the file (or any child file in a directory) is highlighted
-  private _isFileOrChildHighlighted(fsPath: string): boolean {
-    if (this._highlightedFiles.has(fsPath)) {
-      return true;
-    }
-    if (fsPath.endsWith(path.sep)) {
-      fsPath = fsPath.slice(0, -1);
+  // Files with surviving lines show their line count; touched files whose lines were all rewritten get a muted badge
+  private _fileDecoration(fileInfo: HighlightedFileInfo): vscode.FileDecoration {
+    const lineCount = sumCounts(fileInfo.commitCounts);
+    const commitList = Array.from(fileInfo.touchingCommits, commit => commit.substring(0, 7)).join(', ');
+    switch (fileHighlightState(fileInfo)) {
+      case 'surviving':
+        return new vscode.FileDecoration(
+          this._style.explorerBadge ? formatBadgeCount(lineCount) : undefined,
+          `${pluralize(lineCount, 'highlighted line')} from ${pluralize(fileInfo.commitCounts.size, 'commit')}`,
+          new vscode.ThemeColor('gitDecoration.modifiedResourceForeground')
+        );
+      case 'rewritten':
+        return new vscode.FileDecoration(
+          this._style.explorerBadge || undefined,
+          `Changed by ${commitList}, but none of those lines survive`,
+          new vscode.ThemeColor('gitDecoration.ignoredResourceForeground')
+        );
+      case 'counting':
+        return new vscode.FileDecoration(
+          this._style.explorerBadge || undefined,
+          `Changed by ${commitList}; counting highlighted lines...`,
+          new vscode.ThemeColor('gitDecoration.ignoredResourceForeground')
+        );
     }
-    for (const filePath of this._highlightedFiles.keys()) {
-      if (filePath.startsWith(fsPath + path.sep)) {
-        return true;
+  }
+
+  // Folders are colored after their files and summarize them in the tooltip, without a badge
+  private _folderDecoration(folderPath: string): vscode.FileDecoration | undefined {
+    const prefix = folderPath.endsWith(path.sep) ? folderPath : folderPath + path.sep;
+    let survivingFiles = 0;
+    let rewrittenFiles = 0;
+    let lineCount = 0;
+    this._highlightedFiles.forEach((fileInfo, filePath) => {
+      if (!filePath.startsWith(prefix)) {
+        return;
+      }
+      if (fileHighlightState(fileInfo) === 'rewritten') {
+        rewrittenFiles++;
+      } else {
+        survivingFiles++;
+        lineCount += sumCounts(fileInfo.commitCounts);
       }
+    });
+    if (survivingFiles + rewrittenFiles === 0) {
+      return undefined;
+    }
+    const parts = [`${pluralize(lineCount, 'highlighted line')} in ${pluralize(survivingFiles, 'file')}`];
+    if (rewrittenFiles > 0) {
+      parts.push(`${pluralize(rewrittenFiles, 'file')} changed but fully rewritten`);
     }
-    return false;
+    return new vscode.FileDecoration(
+      undefined,
+      parts.join(', '),
+      new vscode.ThemeColor(survivingFiles > 0 ? 'gitDecoration.modifiedResourceForeground' : 'gitDecoration.ignoredResourceForeground')
+    );
   }
   
+  // Get (or lazily create) the decoration types for a highlight color
+  private _getDecorationTypes(color: string): CommitDecorationTypes {
+    let types = this._decorationTypes.get(color);
+    if (!types) {
+      const style = this._style;
+      const overviewRuler = (alpha: number): vscode.DecorationRenderOptions => style.overviewRulerLane === undefined
+        ? {}
+        : { overviewRulerColor: toRgba(color, alpha), overviewRulerLane: style.overviewRulerLane };
+      types = {
+        // Decoration style for the editor text (with a transparent highlight)
+        highlight: vscode.window.createTextEditorDecorationType({
+          backgroundColor: style.backgroundColor ?? toRgba(color, 0.2),
+          borderWidth: '1px',
+          borderStyle: 'solid',
+          borderColor: style.borderColor ?? toRgba(color, 0.4),
+          isWholeLine: style.wholeLine,
+          ...(style.gutterIcon ? { gutterIconPath: gutterDotIcon(color), gutterIconSize: 'contain' } : {}),
+          // The ruler marks belong to the highlight itself, so turning off the minimap layer keeps them
+          ...overviewRuler(0.6)
+        }),
+        // Decoration style for the minimap
+        minimap: vscode.window.createTextEditorDecorationType({
+          isWholeLine: style.wholeLine,
+          backgroundColor: style.backgroundColor ?? toRgba(color, 0.4)
+        }),
+        // Introduced lines that were later overwritten: outlined only, so they read as "gone"
+        overwritten: vscode.window.createTextEditorDecorationType({
+          borderWidth: '1px',
+          borderStyle: 'dashed',
+          borderColor: style.borderColor ?? toRgba(color, 0.6),
+          isWholeLine: style.wholeLine,
+          ...overviewRuler(0.3)
+        }),
+        // Deleted lines: a gutter triangle and a rule above the line where they used to be
+        deletion: vscode.window.createTextEditorDecorationType({
+          gutterIconPath: deletionMarkerIcon(color),
+          gutterIconSize: 'contain',
+          borderWidth: '1px 0 0 0',
+          borderStyle: 'solid',
+          borderColor: style.borderColor ?? toRgba(color, 0.8),
+          isWholeLine: true,
+          ...overviewRuler(0.6)
+        })
+      };
+      this._decorationTypes.set(color, types);
+    }
+    return types;
+  }
+
+  /**
+   * Re-read the decoration settings and drop the decoration types built from the old ones.
+   * Disposing a type removes its decorations, so callers re-apply highlighting afterwards.
+   */
+  public refreshDecorationStyle() {
+    this._style = getDecorationStyle();
+    this._disposeDecorationTypes();
+    this._refreshFileExplorerDecorations();
+  }
+
+  private _disposeDecorationTypes() {
+    this._decorationTypes.forEach(types => {
+      types.highlight.dispose();
+      types.minimap.dispose();
+      types.overwritten.dispose();
+      types.deletion.dispose();
+    });
+    this._decorationTypes.clear();
+  }
+
+  // The part of a line a highlight covers: the whole line, or just its text
+  private _highlightRange(line: vscode.TextLine): vscode.Range {
+    if (this._style.wholeLine) {
+      return line.range;
+    }
+    return new vscode.Range(line.lineNumber, line.firstNonWhitespaceCharacterIndex, line.lineNumber, line.text.length);
+  }
+
+  // Remove every commit color's decorations from an editor
+  private _clearEditorDecorations(editor: vscode.TextEditor) {
+    this._decorationTypes.forEach(types => {
+      editor.setDecorations(types.highlight, []);
+      editor.setDecorations(types.minimap, []);
+      editor.setDecorations(types.overwritten, []);
+      editor.setDecorations(types.deletion, []);
+    });
+  }
+
   // Clean up resources
   public dispose() {
     if (this._fileDecorationProviderDisposable) {
       this._fileDecorationProviderDisposable.dispose();
     }
+    this._disposeDecorationTypes();
+    this._onDidChangeHighlights.dispose();
   }
 
   /**
    * Apply highlighting to lines in the editor that match one of the provided commit hashes.
-   * (This method uses Git blame on a per-file basis.)
+   * (In blame mode this uses Git blame on a per-file basis; diff mode follows each commit's own hunks.)
+   * Editors showing a file as of a commit or the index, such as either side of a diff editor, are
+   * blamed at that version; documents that are not a version of a file are left alone.
    */
   public async applyHighlighting(editor: vscode.TextEditor, commitHashes: string[]) {
-    if (commitHashes.length === 0) {
+    // The heatmap shades every line, whether or not any commits are selected
+    if (commitHashes.length === 0 && this.highlightMode !== 'heatmap' && !this.lineFilter) {
       return;
     }
-    const filePath = editor.document.uri.fsPath;
+    const source = parseDocumentRevision(editor.document.uri);
+    if (!source) {
+      console.log(`Not a file or file revision - skipping ${editor.document.uri.toString()}`);
+      return;
+    }
+    // A newer run (or clearing) for the same editor cancels this one, so outdated results are dropped
+    this._cancelHighlightRun(editor);
+    const run = new vscode.CancellationTokenSource();
+    this._highlightRuns.set(editor, run);
+    try {
+      if (this._followsCommitDiffs()) {
+        await this._applyIntroducedHighlighting(editor, source, commitHashes, run.token);
+      } else if (this.highlightMode === 'heatmap') {
+        await this._applyHeatmapHighlighting(editor, source, commitHashes, run.token);
+      } else {
+        await this._applyBlameHighlighting(editor, source, commitHashes, run.token);
+      }
+    } finally {
+      if (this._highlightRuns.get(editor) === run) {
+        this._highlightRuns.delete(editor);
+      }
+      run.dispose();
+    }
+  }
+
+  // Diff mode follows the commits' own hunks; a line filter needs blame to know who touched a line
+  private _followsCommitDiffs(): boolean {
+    return this.highlightMode === 'diff' && !this.lineFilter;
+  }
+
+  // Whether blame attributes lines to one of the commits or, with a line filter, to a matching author and date.
+  // Blame only reports the mailmapped author; _loadCommitAuthors adds the identity recorded in the commit
+  private _isHighlightedBlame(blameInfo: BlameInfo, commitSet: Set<string>): boolean {
+    if (commitSet.has(blameInfo.hash)) {
+      return true;
+    }
+    if (!this.lineFilter || /^0+$/.test(blameInfo.hash)) {
+      return false;
+    }
+    const author = this._commitAuthorsCache.get(blameInfo.hash)
+      ?? { names: [blameInfo.author], mails: [blameInfo.authorMail], time: blameInfo.authorTime };
+    return matchesLineFilter(author, this.lineFilter);
+  }
+
+  // Look up the raw and mailmapped authors of blamed commits not seen before, in one git call, so an
+  // author filter matches every alias. On failure the filter falls back to the author blame reports
+  private async _loadCommitAuthors(filePath: string, blameInfos: BlameInfo[]) {
+    if (this.lineFilter?.author === undefined) {
+      return;
+    }
+    const missing = Array.from(new Set(blameInfos.map(blameInfo => blameInfo.hash)))
+      .filter(hash => !/^0+$/.test(hash) && this._commitAuthorsCache.get(hash) === undefined);
+    const cwd = missing.length > 0 ? await this.getRepositoryRoot(filePath) : undefined;
+    if (!cwd) {
+      return;
+    }
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await this._gitPool.run(() => {
+        const log = execFilePromise(
+          'git',
+          ['log', '--no-walk=unsorted', '--stdin', `--format=${AUTHOR_RECORD_FORMAT}`],
+          { cwd, maxBuffer: GIT_MAX_BUFFER }
+        );
+        log.child.stdin?.end(missing.join('\n') + '\n');
+        return log;
+      });
+      parseAuthorRecords(stdout).forEach((author, hash) => this._commitAuthorsCache.set(hash, author));
+    } catch (error) {
+      console.error(`Error getting the authors of ${missing.length} commits:`, error);
+    }
+  }
+
+  private _cancelHighlightRun(editor: vscode.TextEditor) {
+    this._highlightRuns.get(editor)?.cancel();
+    this._highlightRuns.delete(editor);
+  }
+
+  // Highlight the lines blame attributes to the commits
+  private async _applyBlameHighlighting(
+    editor: vscode.TextEditor,
+    source: DocumentRevision,
+    commitHashes: string[],
+    token: vscode.CancellationToken
+  ) {
+    const document = editor.document;
+    const filePath = source.filePath;
+    const documentVersion = document.version;
     console.log(`Processing file: ${filePath}`);
 
     try {
-      const blameInfos = await this.getBlameInfoForFile(filePath);
+      const blameInfos = await this.getBlameInfoForFile(filePath, document);
+      if (token.isCancellationRequested) {
+        console.log("Highlighting run was superseded - skipping");
+        return;
+      }
       if (!blameInfos || blameInfos.length === 0) {
         console.log("No blame information found for this file");
         return;
       }
+      // The buffer was edited while git was running; the next (debounced) run will catch up
+      if (document.version !== documentVersion) {
+        console.log("Document changed during blame - skipping outdated highlighting");
+        return;
+      }
+      const repositoryRoot = await this.getRepositoryRoot(filePath);
+      await this._loadCommitAuthors(filePath, blameInfos);
 
-      const decorationsArray: vscode.DecorationOptions[] = [];
+      // Decorations grouped by the color of the commit they belong to
+      const decorationsByColor = new Map<string, vscode.DecorationOptions[]>();
+      const commitSet = new Set(commitHashes);
+      const commitCounts = new Map<string, number>();
+      let decorationCount = 0;
 
       for (const blameInfo of blameInfos) {
-        if (commitHashes.includes(blameInfo.hash)) {
+        if (this._isHighlightedBlame(blameInfo, commitSet)) {
           console.log(`Found matching hash ${blameInfo.hash} with ${blameInfo.lines.length} lines`);
+          const color = this._colors.getColor(blameInfo.hash);
+          const decorationsArray = decorationsByColor.get(color) ?? [];
+          // A line filter may match any number of commits, so like the heatmap it shows the subject only
+          const message = repositoryRoot && !this.lineFilter ? await this.getCommitMessage(blameInfo.hash, repositoryRoot) : '';
+          const hoverMessage = this._buildHoverMessage(blameInfo, message, repositoryRoot);
           for (const lineNumber of blameInfo.lines) {
-            const line = editor.document.lineAt(lineNumber);
+            if (lineNumber >= document.lineCount) {
+              continue;
+            }
+            const line = document.lineAt(lineNumber);
             const decoration = {
-              range: line.range,
-              hoverMessage: `Commit: ${blameInfo.hash}`
+              range: this._highlightRange(line),
+              hoverMessage
             };
             decorationsArray.push(decoration);
+            commitCounts.set(blameInfo.hash, (commitCounts.get(blameInfo.hash) ?? 0) + 1);
+            decorationCount++;
           }
+          decorationsByColor.set(color, decorationsArray);
         }
       }
-      console.log(`Applying ${decorationsArray.length} decorations`);
+      if (token.isCancellationRequested) {
+        return;
+      }
+      console.log(`Applying ${decorationCount} decorations`);
 
-      // Apply decorations in the editor (both in the main view and minimap)
-      editor.setDecorations(this._highlightDecorationType, decorationsArray);
-      editor.setDecorations(this._minimapDecorationType, decorationsArray);
+      // Apply decorations in the editor (both in the main view and minimap), one type per color
+      decorationsByColor.forEach((_decorations, color) => this._getDecorationTypes(color));
+      this._decorationTypes.forEach((types, color) => {
+        const decorationsArray = decorationsByColor.get(color) ?? [];
+        editor.setDecorations(types.highlight, decorationsArray);
+        editor.setDecorations(types.minimap, this._style.minimap ? decorationsArray : []);
+        editor.setDecorations(types.overwritten, []);
+        editor.setDecorations(types.deletion, []);
+      });
 
-      // Update tracking: if any decorations were applied, mark the file as highlighted.
-      if (decorationsArray.length > 0) {
-        this._highlightedFiles.set(filePath, {
-          uri: editor.document.uri,
-          highlightCount: decorationsArray.length
-        });
-      } else {
-        this._highlightedFiles.delete(filePath);
+      this._setDocumentCounts(source, commitCounts);
+    } catch (error) {
+      console.error("Error applying highlighting:", error);
+      this._showError(source, `Error applying highlighting: ${error}`);
+    }
+  }
+
+  // Highlight the lines the commits' own diffs added, their overwritten lines and where they deleted lines
+  private async _applyIntroducedHighlighting(
+    editor: vscode.TextEditor,
+    source: DocumentRevision,
+    commitHashes: string[],
+    token: vscode.CancellationToken
+  ) {
+    const document = editor.document;
+    const filePath = source.filePath;
+    const documentVersion = document.version;
+    console.log(`Processing file (diff mode): ${filePath}`);
+
+    try {
+      const repositoryRoot = await this.getRepositoryRoot(filePath);
+      if (!repositoryRoot) {
+        console.error("File is not in a git repository");
+        return;
       }
 
-      this._refreshFileExplorerDecorations();
+      const addedByColor = new Map<string, vscode.DecorationOptions[]>();
+      const overwrittenByColor = new Map<string, vscode.DecorationOptions[]>();
+      const deletionsByColor = new Map<string, vscode.DecorationOptions[]>();
+      const commitCounts = new Map<string, number>();
+      let decorationCount = 0;
+      const addDecorations = (byColor: Map<string, vscode.DecorationOptions[]>, color: string, lines: number[], hoverMessage: vscode.MarkdownString) => {
+        const decorationsArray = byColor.get(color) ?? [];
+        for (const lineNumber of lines) {
+          // Deletions at the very end of a file are marked on its last line
+          const line = document.lineAt(Math.min(lineNumber, document.lineCount - 1));
+          decorationsArray.push({ range: byColor === deletionsByColor ? line.range : this._highlightRange(line), hoverMessage });
+        }
+        byColor.set(color, decorationsArray);
+      };
+
+      const contentHash = await this._hashContent(filePath, document.getText());
+      for (const commit of new Set(commitHashes)) {
+        // An older version of the file cannot contain lines of commits made after it
+        if (source.kind === 'commit' && !await this._isAncestor(commit, source.revision, repositoryRoot)) {
+          continue;
+        }
+        const introduced = await this.getIntroducedLines(commit, filePath, document, contentHash);
+        if (token.isCancellationRequested) {
+          console.log("Highlighting run was superseded - skipping");
+          return;
+        }
+        if (introduced.surviving.length + introduced.overwritten.length + introduced.deletions.length === 0) {
+          continue;
+        }
+        const details = await this.getCommitDetails(commit, repositoryRoot);
+        const hoverCommit: HoverCommit = {
+          hash: commit,
+          summary: details?.subject ?? '',
+          author: details?.author ?? '',
+          authorMail: details?.authorMail ?? '',
+          authorTime: details?.authorTime ?? 0
+        };
+        const message = details?.message ?? '';
+        const color = this._colors.getColor(commit);
+        addDecorations(addedByColor, color, introduced.surviving,
+          this._buildHoverMessage(hoverCommit, message, repositoryRoot, 'Added by this commit'));
+        addDecorations(overwrittenByColor, color, introduced.overwritten,
+          this._buildHoverMessage(hoverCommit, message, repositoryRoot, 'Added by this commit and later overwritten'));
+        addDecorations(deletionsByColor, color, introduced.deletions,
+          this._buildHoverMessage(hoverCommit, message, repositoryRoot, 'This commit deleted lines above this line'));
+        // Overwritten lines are shown, but only surviving ones count as highlighted
+        if (introduced.surviving.length > 0) {
+          commitCounts.set(commit, introduced.surviving.length);
+        }
+        decorationCount += introduced.surviving.length + introduced.overwritten.length;
+      }
+      // The buffer was edited while git was running; the next (debounced) run will catch up
+      if (document.version !== documentVersion) {
+        console.log("Document changed during diff - skipping outdated highlighting");
+        return;
+      }
+      if (token.isCancellationRequested) {
+        return;
+      }
+      console.log(`Applying ${decorationCount} decorations`);
+
+      [addedByColor, overwrittenByColor, deletionsByColor].forEach(byColor => {
+        byColor.forEach((_decorations, color) => this._getDecorationTypes(color));
+      });
+      this._decorationTypes.forEach((types, color) => {
+        const added = addedByColor.get(color) ?? [];
+        const overwritten = overwrittenByColor.get(color) ?? [];
+        editor.setDecorations(types.highlight, added);
+        editor.setDecorations(types.minimap, this._style.minimap ? added : []);
+        editor.setDecorations(types.overwritten, overwritten);
+        editor.setDecorations(types.deletion, deletionsByColor.get(color) ?? []);
+      });
+
+      this._setDocumentCounts(source, commitCounts);
     } catch (error) {
       console.error("Error applying highlighting:", error);
-      vscode.window.showErrorMessage(`Error applying highlighting: ${error}`);
+      this._showError(source, `Error applying highlighting: ${error}`);
+    }
+  }
+
+  // Shade every line by the age of its commit; the selected commits still feed the counts
+  private async _applyHeatmapHighlighting(
+    editor: vscode.TextEditor,
+    source: DocumentRevision,
+    commitHashes: string[],
+    token: vscode.CancellationToken
+  ) {
+    const document = editor.document;
+    const documentVersion = document.version;
+    console.log(`Processing file (heatmap): ${source.filePath}`);
+
+    try {
+      const blameInfos = await this.getBlameInfoForFile(source.filePath, document);
+      if (token.isCancellationRequested || document.version !== documentVersion) {
+        console.log("Heatmap run was superseded or the document changed - skipping");
+        return;
+      }
+      const repositoryRoot = await this.getRepositoryRoot(source.filePath);
+      await this._loadCommitAuthors(source.filePath, blameInfos);
+      const { gradient, maxAgeSeconds } = getHeatmapStyle();
+      const now = Math.floor(Date.now() / 1000);
+      const decorationsByColor = new Map<string, vscode.DecorationOptions[]>();
+      const commitSet = new Set(commitHashes);
+      const commitCounts = new Map<string, number>();
+
+      for (const blameInfo of blameInfos) {
+        const color = heatmapColor(now - blameInfo.authorTime, maxAgeSeconds, gradient);
+        const decorationsArray = decorationsByColor.get(color) ?? [];
+        // The commit message body would cost a git call per commit, so the hover shows the subject only
+        const hoverMessage = this._buildHoverMessage(blameInfo, '', repositoryRoot);
+        for (const lineNumber of blameInfo.lines) {
+          if (lineNumber < document.lineCount) {
+            decorationsArray.push({ range: this._highlightRange(document.lineAt(lineNumber)), hoverMessage });
+          }
+        }
+        decorationsByColor.set(color, decorationsArray);
+        if (this._isHighlightedBlame(blameInfo, commitSet)) {
+          commitCounts.set(blameInfo.hash, (commitCounts.get(blameInfo.hash) ?? 0) + blameInfo.lines.length);
+        }
+      }
+
+      decorationsByColor.forEach((_decorations, color) => this._getDecorationTypes(color));
+      this._decorationTypes.forEach((types, color) => {
+        const decorationsArray = decorationsByColor.get(color) ?? [];
+        editor.setDecorations(types.highlight, decorationsArray);
+        editor.setDecorations(types.minimap, this._style.minimap ? decorationsArray : []);
+        editor.setDecorations(types.overwritten, []);
+        editor.setDecorations(types.deletion, []);
+      });
+
+      this._setDocumentCounts(source, commitCounts);
+    } catch (error) {
+      console.error("Error applying heatmap:", error);
+      this._showError(source, `Error applying heatmap: ${error}`);
+    }
+  }
+
+  // Only the working tree copy of a file feeds the Explorer and status bar counts
+  private _setDocumentCounts(source: DocumentRevision, commitCounts: Map<string, number>) {
+    if (source.kind === 'workingTree') {
+      this._setFileCounts(vscode.Uri.file(source.filePath), commitCounts);
+    }
+  }
+
+  // Failures are shown for working tree files open in an editor. Other versions (e.g. a pull request
+  // commit that was never fetched) and files only counted in the background are just logged, since
+  // nobody asked for those to be highlighted explicitly
+  private _showError(source: DocumentRevision | undefined, message: string) {
+    if (source?.kind === 'workingTree') {
+      vscode.window.showErrorMessage(message);
+    }
+  }
+
+  // Whether `commit` is part of the history of `revision`
+  private async _isAncestor(commit: string, revision: string, cwd: string): Promise<boolean> {
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      await this._gitPool.run(() => execFilePromise('git', ['merge-base', '--is-ancestor', commit, revision], { cwd }));
+      return true;
+    } catch {
+      return false;
     }
   }
 
+  // Build the Markdown hover card shown on every highlighted line of a commit
+  private _buildHoverMessage(blameInfo: HoverCommit, message: string, repositoryRoot: string | undefined, note?: string): vscode.MarkdownString {
+    const hover = new vscode.MarkdownString(undefined, true);
+    hover.isTrusted = { enabledCommands: HOVER_COMMANDS };
+
+    hover.appendMarkdown('**');
+    hover.appendText(blameInfo.summary || blameInfo.hash);
+    hover.appendMarkdown('**\n\n');
+    if (note) {
+      hover.appendMarkdown('$(info) _');
+      hover.appendText(note);
+      hover.appendMarkdown('_\n\n');
+    }
+
+    hover.appendMarkdown('$(person) ');
+    hover.appendText(blameInfo.authorMail ? `${blameInfo.author} <${blameInfo.authorMail}>` : blameInfo.author);
+    if (blameInfo.authorTime > 0) {
+      const date = new Date(blameInfo.authorTime * 1000);
+      hover.appendMarkdown(' · $(clock) ');
+      hover.appendText(`${formatRelativeTime(blameInfo.authorTime)} (${date.toLocaleString()})`);
+    }
+    if (blameInfo.committer && blameInfo.committer !== blameInfo.author) {
+      hover.appendMarkdown(' · committed by ');
+      hover.appendText(blameInfo.committer);
+    }
+    hover.appendMarkdown('\n\n');
+
+    // The message body without the subject line, which is already shown as the title
+    const body = message.split('\n').slice(1).join('\n').trim();
+    if (body.length > 0) {
+      hover.appendCodeblock(body, 'text');
+    }
+
+    const hashArgs = encodeURIComponent(JSON.stringify([blameInfo.hash]));
+    const diffArgs = encodeURIComponent(JSON.stringify([blameInfo.hash, repositoryRoot]));
+    hover.appendMarkdown('\n---\n\n');
+    hover.appendMarkdown(`\`${blameInfo.hash.substring(0, 8)}\``);
+    hover.appendMarkdown(` · [$(copy) Copy hash](command:commit-hash-highlighter.copyHash?${hashArgs})`);
+    if (repositoryRoot) {
+      hover.appendMarkdown(` · [$(diff) Open diff](command:commit-hash-highlighter.openCommitDiff?${diffArgs})`);
+    }
+    hover.appendMarkdown(` · [$(close) Remove](command:commit-hash-highlighter.removeHash?${hashArgs})`);
+    return hover;
+  }
+
+  /**
+   * Get the full commit message of a commit (cached, since commits are immutable).
+   */
+  public async getCommitMessage(hash: string, cwd: string): Promise<string> {
+    const details = await this.getCommitDetails(hash, cwd);
+    return details?.message ?? '';
+  }
+
+  /**
+   * Get the author, date, subject and message of a commit (cached, since commits are immutable).
+   */
+  public async getCommitDetails(hash: string, cwd: string): Promise<CommitDetails | undefined> {
+    const cached = this._commitDetailsCache.get(hash);
+    if (cached) {
+      return cached;
+    }
+    // Uncommitted lines are blamed on the all-zero hash
+    if (/^0+$/.test(hash)) {
+      return undefined;
+    }
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await this._gitPool.run(() => execFilePromise(
+        'git',
+        ['log', '-1', '--format=%H%x00%an%x00%ae%x00%at%x00%B', hash],
+        { cwd }
+      ));
+      const [fullHash, author, authorMail, authorTime, ...messageParts] = stdout.split('\0');
+      const message = messageParts.join('\0').trim();
+      const details: CommitDetails = {
+        hash: fullHash,
+        author,
+        authorMail,
+        authorTime: parseInt(authorTime, 10),
+        subject: message.split('\n')[0],
+        message
+      };
+      this._commitDetailsCache.set(hash, details);
+      return details;
+    } catch (error) {
+      console.error(`Error getting details for commit ${hash}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the details of several commits of one repository with a single `git log --no-walk --stdin`
+   * call, for those not cached yet. Commits git does not know are left out of the result.
+   */
+  public async getCommitDetailsBatch(hashes: string[], cwd: string): Promise<Map<string, CommitDetails>> {
+    const result = new Map<string, CommitDetails>();
+    const missing: string[] = [];
+    for (const hash of new Set(hashes)) {
+      const cached = this._commitDetailsCache.get(hash);
+      if (cached) {
+        result.set(hash, cached);
+      } else if (!/^0+$/.test(hash)) {
+        missing.push(hash);
+      }
+    }
+    if (missing.length === 0) {
+      return result;
+    }
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await this._gitPool.run(() => {
+        const log = execFilePromise(
+          'git',
+          ['log', '--no-walk=unsorted', '--stdin', '--format=%x1e%H%x00%an%x00%ae%x00%at%x00%B'],
+          { cwd, maxBuffer: GIT_MAX_BUFFER }
+        );
+        log.child.stdin?.end(missing.join('\n') + '\n');
+        return log;
+      });
+      // Each commit starts with a record separator, which commit messages do not contain
+      const byFullHash = new Map<string, CommitDetails>();
+      for (const record of stdout.split('\x1e').slice(1)) {
+        const [fullHash, author, authorMail, authorTime, ...messageParts] = record.split('\0');
+        const message = messageParts.join('\0').trim();
+        byFullHash.set(fullHash, { hash: fullHash, author, authorMail, authorTime: parseInt(authorTime, 10), subject: message.split('\n')[0], message });
+      }
+      for (const hash of missing) {
+        const details = byFullHash.get(hash)
+          ?? Array.from(byFullHash.values()).find(candidate => candidate.hash.startsWith(hash.toLowerCase()));
+        if (details) {
+          this._commitDetailsCache.set(hash, details);
+          result.set(hash, details);
+        }
+      }
+    } catch (error) {
+      // One unknown commit fails the whole batch; look the others up one by one instead
+      console.error(`Error getting details for ${missing.length} commits:`, error);
+      for (const hash of missing) {
+        const details = await this.getCommitDetails(hash, cwd);
+        if (details) {
+          result.set(hash, details);
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get the number of lines a commit added, per file (relative to the repository root).
+   */
+  public async getAddedLineCounts(commit: string, cwd: string): Promise<Map<string, number>> {
+    const execFilePromise = util.promisify(cp.execFile);
+    const counts = new Map<string, number>();
+    try {
+      const { stdout } = await this._gitPool.run(() => execFilePromise(
+        'git',
+        ['diff-tree', '--no-commit-id', '--numstat', '--root', '-r', commit],
+        { cwd, maxBuffer: GIT_MAX_BUFFER }
+      ));
+      for (const line of stdout.split('\n')) {
+        // "<added>\t<deleted>\t<path>"; binary files show "-" counts
+        const [added, , file] = line.split('\t');
+        if (file) {
+          counts.set(file, added === '-' ? 0 : parseInt(added, 10));
+        }
+      }
+    } catch (error) {
+      console.error(`Error getting line counts for commit ${commit}:`, error);
+    }
+    return counts;
+  }
+
   /**
    * Clear highlighting from a specific editor.
    */
   public clearHighlighting(editor: vscode.TextEditor) {
     console.log("Clearing all highlighting decorations");
-    editor.setDecorations(this._highlightDecorationType, []);
-    editor.setDecorations(this._minimapDecorationType, []);
-    const filePath = editor.document.uri.fsPath;
-    this._highlightedFiles.delete(filePath);
-    this._refreshFileExplorerDecorations();
+    this._cancelHighlightRun(editor);
+    this._clearEditorDecorations(editor);
   }
   
   /**
    * Clear highlights from all visible editors.
    */
   public clearAllHighlights() {
+    this._highlightRuns.forEach(run => run.cancel());
+    this._highlightRuns.clear();
     vscode.window.visibleTextEditors.forEach(editor => {
-      editor.setDecorations(this._highlightDecorationType, []);
-      editor.setDecorations(this._minimapDecorationType, []);
+      this._clearEditorDecorations(editor);
     });
     this._highlightedFiles.clear();
     this._refreshFileExplorerDecorations();
   }
   
+  /**
+   * Number of surviving highlighted lines per commit in a file.
+   */
+  public getHighlightCounts(filePath: string): Map<string, number> {
+    return new Map(this._highlightedFiles.get(filePath)?.commitCounts ?? []);
+  }
+
+  /**
+   * Per commit, the number of files with surviving highlighted lines from it and the total of those lines.
+   */
+  public getHighlightTotals(): Map<string, { files: number; lines: number }> {
+    const totals = new Map<string, { files: number; lines: number }>();
+    this._highlightedFiles.forEach(fileInfo => {
+      fileInfo.commitCounts.forEach((count, commit) => {
+        const total = totals.get(commit) ?? { files: 0, lines: 0 };
+        total.files++;
+        total.lines += count;
+        totals.set(commit, total);
+      });
+    });
+    return totals;
+  }
+
+  /**
+   * Paths of the files with surviving highlighted lines (or not counted yet), in a stable (sorted) order.
+   * Files the commits changed but whose lines were all rewritten are left out.
+   */
+  public getHighlightedFilePaths(): string[] {
+    return Array.from(this._highlightedFiles)
+      .filter(([, fileInfo]) => fileHighlightState(fileInfo) !== 'rewritten')
+      .map(([filePath]) => filePath)
+      .sort();
+  }
+
+  // Record the surviving highlighted lines of a file; a file without any that no active commit changed is dropped
+  private _setFileCounts(uri: vscode.Uri, commitCounts: Map<string, number>) {
+    const fileInfo = this._highlightedFiles.get(uri.fsPath);
+    const touchingCommits = fileInfo?.touchingCommits ?? new Set<string>();
+    if (commitCounts.size === 0 && touchingCommits.size === 0) {
+      this._highlightedFiles.delete(uri.fsPath);
+    } else {
+      this._highlightedFiles.set(uri.fsPath, { uri, touchingCommits, commitCounts, counted: true });
+    }
+    this._refreshFileExplorerDecorations();
+  }
+
+  // Surviving highlighted lines per commit in a file that is not necessarily open in an editor
+  private async _countHighlightedLines(filePath: string, commits: Set<string>, touchingCommits: Set<string>): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (this._followsCommitDiffs()) {
+      // A commit's own hunks only reach the files it changed
+      const document = this._findWorkingTreeDocument(filePath);
+      const contentHash = await this._hashContent(filePath, document?.getText());
+      for (const commit of touchingCommits) {
+        const introduced = await this.getIntroducedLines(commit, filePath, document, contentHash);
+        if (introduced.surviving.length > 0) {
+          counts.set(commit, introduced.surviving.length);
+        }
+      }
+      return counts;
+    }
+    const blameInfos = await this.getBlameInfoForPath(filePath);
+    await this._loadCommitAuthors(filePath, blameInfos);
+    for (const blameInfo of blameInfos) {
+      if (this._isHighlightedBlame(blameInfo, commits)) {
+        counts.set(blameInfo.hash, (counts.get(blameInfo.hash) ?? 0) + blameInfo.lines.length);
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Get the contiguous blocks of lines in a file that belong to any of the given commits.
+   */
+  public async getHighlightedRanges(filePath: string, commits: string[]): Promise<LineRange[]> {
+    if (this._followsCommitDiffs()) {
+      const document = this._findWorkingTreeDocument(filePath);
+      const contentHash = await this._hashContent(filePath, document?.getText());
+      const lines: number[] = [];
+      for (const commit of new Set(commits)) {
+        const introduced = await this.getIntroducedLines(commit, filePath, document, contentHash);
+        lines.push(...introduced.surviving, ...introduced.overwritten);
+      }
+      return groupContiguousLines(lines);
+    }
+    const commitSet = new Set(commits);
+    const blameInfos = await this.getBlameInfoForPath(filePath);
+    await this._loadCommitAuthors(filePath, blameInfos);
+    const lines = blameInfos
+      .filter(blameInfo => this._isHighlightedBlame(blameInfo, commitSet))
+      .flatMap(blameInfo => blameInfo.lines);
+    return groupContiguousLines(lines);
+  }
+
+  /**
+   * Get the contiguous blocks of lines in a file that belong to each of the given commits, from a
+   * single blame of the file (or, in diff mode, one pass over the commits' hunks). Commits without
+   * highlighted lines in the file are left out.
+   */
+  public async getHighlightedRangesByCommit(filePath: string, commits: string[]): Promise<Map<string, LineRange[]>> {
+    const linesByCommit = new Map<string, number[]>();
+    if (this._followsCommitDiffs()) {
+      const document = this._findWorkingTreeDocument(filePath);
+      const contentHash = await this._hashContent(filePath, document?.getText());
+      for (const commit of new Set(commits)) {
+        const introduced = await this.getIntroducedLines(commit, filePath, document, contentHash);
+        const lines = [...introduced.surviving, ...introduced.overwritten];
+        if (lines.length > 0) {
+          linesByCommit.set(commit, lines);
+        }
+      }
+    } else {
+      const commitSet = new Set(commits);
+      for (const blameInfo of await this.getBlameInfoForPath(filePath)) {
+        if (commitSet.has(blameInfo.hash)) {
+          linesByCommit.set(blameInfo.hash, blameInfo.lines);
+        }
+      }
+    }
+    return new Map(Array.from(linesByCommit, ([commit, lines]) => [commit, groupContiguousLines(lines)]));
+  }
+
   /**
    * Trigger a refresh of file explorer decorations.
    */
   private _refreshFileExplorerDecorations() {
     this._onDidChangeFileDecorations.fire(undefined);
+    this._onDidChangeHighlights.fire();
   }
 
   /**
    * Clear cached blame information for a specific file.
    */
   public clearBlameCache(filePath: string) {
-    this._blameCache.delete(filePath);
+    this._blameCache.deleteWhere(key => key.startsWith(`${filePath}\0`));
   }
 
   /**
@@ -185,134 +997,429 @@ export class GitBlameService {
     this._blameCache.clear();
   }
 
+  // The open buffer of a working tree file; diff editors also open older versions under the same path
+  private _findWorkingTreeDocument(filePath: string): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find(doc => doc.uri.scheme === 'file' && doc.uri.fsPath === filePath);
+  }
+
+  /**
+   * Get blame information for a file, using its open document (if any) so unsaved edits are respected.
+   */
+  public async getBlameInfoForPath(filePath: string): Promise<BlameInfo[]> {
+    const document = this._findWorkingTreeDocument(filePath);
+    return this.getBlameInfoForFile(filePath, document);
+  }
+
   /**
    * Get blame information for a file using Git.
+   * Unsaved buffers are blamed with their live contents, so line numbers match the editor
+   * and newly typed lines are attributed to the uncommitted (all-zero) hash. A document showing
+   * the file as of a commit is blamed at that commit, and one showing the index by its text.
    */
-  private async getBlameInfoForFile(filePath: string): Promise<BlameInfo[]> {
-    if (this._blameCache.has(filePath)) {
+  private async getBlameInfoForFile(filePath: string, document?: vscode.TextDocument): Promise<BlameInfo[]> {
+    const source = document ? parseDocumentRevision(document.uri) : undefined;
+    const revision = source?.kind === 'commit' ? source.revision : undefined;
+    const useContents = document?.isDirty || source?.kind === 'index';
+    // Captured once, so the cache key and the blamed contents always agree
+    const text = document?.getText();
+    const repositoryRoot = await this.getRepositoryRoot(filePath);
+    if (!repositoryRoot) {
+      console.error("File is not in a git repository");
+      return [];
+    }
+    const optionArgs = getBlameOptionArgs(repositoryRoot);
+    const head = await this._heads.getHead(repositoryRoot);
+    const contentHash = await this._hashContent(filePath, text);
+    const cacheKey = `${filePath}\0${optionArgs.join(' ')}\0${head ?? ''}\0${revision ?? ''}\0${contentHash}`;
+    this._blameCache.resize(getBlameCacheSize());
+    const cached = this._blameCache.get(cacheKey);
+    if (cached) {
       console.log("Using cached blame info");
-      return this._blameCache.get(filePath) || [];
+      return cached;
+    }
+    // Split editors and the other views share one git process per file version
+    const pending = this._pendingBlames.get(cacheKey);
+    if (pending) {
+      console.log("Joining running blame");
+      return pending;
     }
 
+    const blame = this._gitPool.run(() => this._runBlame(filePath, repositoryRoot, optionArgs, useContents ? text : undefined, revision))
+      .then(blameInfos => {
+        this._blameCache.set(cacheKey, blameInfos);
+        return blameInfos;
+      })
+      .catch(error => {
+        console.error(`Error getting blame info: ${error}`);
+        this._showError(source, `Failed to get Git blame info: ${error}`);
+        return [] as BlameInfo[];
+      })
+      .finally(() => this._pendingBlames.delete(cacheKey));
+    this._pendingBlames.set(cacheKey, blame);
+    return blame;
+  }
+
+  // Run `git blame`, feeding unsaved contents through stdin when given, or at a revision
+  private async _runBlame(
+    filePath: string,
+    repositoryRoot: string,
+    optionArgs: string[],
+    contents: string | undefined,
+    revision?: string
+  ): Promise<BlameInfo[]> {
     console.log("Getting blame info from Git");
+    const relativePath = path.relative(repositoryRoot, filePath);
+    const args = ['blame', '--porcelain', ...optionArgs];
+    if (contents !== undefined) {
+      args.push('--contents', '-');
+    } else if (revision !== undefined) {
+      args.push(revision);
+    }
+    args.push('--', relativePath);
+
+    const execFilePromise = util.promisify(cp.execFile);
+    const blame = execFilePromise('git', args, { cwd: repositoryRoot, maxBuffer: GIT_MAX_BUFFER });
+    blame.child.stdin?.end(contents);
+    const { stdout } = await blame;
+    return parsePorcelainBlame(stdout);
+  }
+
+  // Hash of the text blame would see: the open document's text, or the file on disk
+  private async _hashContent(filePath: string, text: string | undefined): Promise<string> {
+    const hash = crypto.createHash('sha1');
     try {
-      const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
-      if (!workspaceFolder) {
-        console.error("File is not in a workspace folder");
-        return [];
-      }
-      const relativePath = path.relative(workspaceFolder.uri.fsPath, filePath);
-      const execPromise = util.promisify(cp.exec);
-      const { stdout } = await execPromise(
-        `git blame -l "${relativePath}"`,
-        { cwd: workspaceFolder.uri.fsPath }
-      );
-
-      const blameInfo: BlameInfo[] = [];
-      const blameLines = stdout.split('\n');
-      const hashMap = new Map<string, number[]>();
-
-      for (let i = 0; i < blameLines.length; i++) {
-        const line = blameLines[i];
-        if (!line || line.trim() === '') {
-          continue;
-        }
-        const match = line.match(/^(\w+)/);
-        if (match && match[1]) {
-          const hash = match[1];
-          const shortHash = hash.substring(0, 40);
-          if (!hashMap.has(shortHash)) {
-            hashMap.set(shortHash, []);
-          }
-          hashMap.get(shortHash)?.push(i);
-        }
+      hash.update(text ?? await fs.promises.readFile(filePath));
+    } catch (error) {
+      // Unreadable files are not cached usefully, but blame reports the actual problem
+      hash.update(String(Date.now()));
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Get the root of the repository (or submodule) owning a file; git commands for it run there.
+   */
+  public getRepositoryRoot(filePath: string): Promise<string | undefined> {
+    return this._repositories.getRepositoryRoot(filePath);
+  }
+
+  /**
+   * Find the lines a commit's own diff added to a file, and where it deleted lines, in the
+   * current version of the file (its open document if given), following later history.
+   * Callers asking about several commits pass the hash of the current contents, so it is computed once.
+   */
+  public async getIntroducedLines(
+    commit: string,
+    filePath: string,
+    document?: vscode.TextDocument,
+    contentHash?: string
+  ): Promise<IntroducedLines> {
+    const introduced: IntroducedLines = { surviving: [], overwritten: [], deletions: [] };
+    const repositoryRoot = await this.getRepositoryRoot(filePath);
+    if (!repositoryRoot) {
+      return introduced;
+    }
+    const relativePath = path.relative(repositoryRoot, filePath).split(path.sep).join('/');
+    const commitHunks = await this._getCommitHunks(commit, relativePath, repositoryRoot);
+    if (commitHunks.length === 0) {
+      return introduced;
+    }
+    const hunksKey = `${commit}\0${filePath}\0${contentHash ?? await this._hashContent(filePath, document?.getText())}`;
+    let laterHunks = this._hunksSinceCache.get(hunksKey);
+    if (!laterHunks) {
+      laterHunks = await this._getHunksSinceCommit(commit, relativePath, filePath, repositoryRoot, document);
+      if (!laterHunks) {
+        return introduced;
       }
+      this._hunksSinceCache.set(hunksKey, laterHunks);
+    }
 
-      hashMap.forEach((lines, hash) => {
-        blameInfo.push({ hash, lines });
-      });
+    const overwritten = new Set<number>();
+    for (const hunk of commitHunks) {
+      for (let line = hunk.newStart; line < hunk.newStart + hunk.newCount; line++) {
+        const mapped = mapLineThroughHunks(laterHunks, line);
+        if (mapped.status === 'unchanged') {
+          introduced.surviving.push(mapped.line - 1);
+        } else if (mapped.status === 'changed') {
+          overwritten.add(mapped.line - 1);
+        }
+      }
+      // For pure deletions `newStart` is the line before the deleted block
+      if (hunk.oldCount > 0 && hunk.newCount === 0) {
+        introduced.deletions.push(mapLineThroughHunks(laterHunks, hunk.newStart + 1).line - 1);
+      }
+    }
+    introduced.overwritten = Array.from(overwritten);
+    return introduced;
+  }
 
-      this._blameCache.set(filePath, blameInfo);
-      return blameInfo;
+  // The zero-context hunks of a commit's own diff for one file (relative to the repository root)
+  private async _getCommitHunks(commit: string, relativePath: string, cwd: string): Promise<DiffHunk[]> {
+    const cacheKey = `${commit}\0${relativePath}`;
+    const cached = this._commitHunksCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await this._gitPool.run(() => execFilePromise(
+        'git',
+        ['diff-tree', '-p', '-U0', '--root', '--no-commit-id', '--no-color', '--no-ext-diff', commit, '--', relativePath],
+        { cwd, maxBuffer: GIT_MAX_BUFFER }
+      ));
+      const hunks = parseDiffHunks(stdout);
+      this._commitHunksCache.set(cacheKey, hunks);
+      return hunks;
     } catch (error) {
-      console.error(`Error getting blame info: ${error}`);
-      vscode.window.showErrorMessage(`Failed to get Git blame info: ${error}`);
+      console.error(`Error getting the diff of commit ${commit} for ${relativePath}:`, error);
       return [];
     }
   }
 
+  // The hunks turning the file as of a commit into its current contents, or undefined when
+  // the file did not exist under this path in the commit
+  private async _getHunksSinceCommit(
+    commit: string,
+    relativePath: string,
+    filePath: string,
+    cwd: string,
+    document?: vscode.TextDocument
+  ): Promise<DiffHunk[] | undefined> {
+    const execFilePromise = util.promisify(cp.execFile);
+    let tempDir: string | undefined;
+    try {
+      tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'commit-hash-highlighter-'));
+      let commitContent: Buffer;
+      try {
+        ({ stdout: commitContent } = await this._gitPool.run(() => execFilePromise(
+          'git',
+          ['show', `${commit}:${relativePath}`],
+          { cwd, maxBuffer: GIT_MAX_BUFFER, encoding: 'buffer' }
+        )));
+      } catch (error) {
+        console.log(`${relativePath} does not exist in commit ${commit}`);
+        return undefined;
+      }
+      const commitFile = path.join(tempDir, 'commit');
+      await fs.promises.writeFile(commitFile, commitContent);
+      let currentFile = filePath;
+      if (document) {
+        currentFile = path.join(tempDir, 'current');
+        await fs.promises.writeFile(currentFile, document.getText(), 'utf8');
+      }
+
+      // `git diff --no-index` exits with 1 when the files differ
+      try {
+        const { stdout } = await this._gitPool.run(() => execFilePromise(
+          'git',
+          ['diff', '--no-index', '--no-color', '--no-ext-diff', '-U0', '--', commitFile, currentFile],
+          { cwd, maxBuffer: GIT_MAX_BUFFER }
+        ));
+        return parseDiffHunks(stdout);
+      } catch (error) {
+        const result = error as { code?: number; stdout?: string };
+        if (result.code === 1 && result.stdout !== undefined) {
+          return parseDiffHunks(result.stdout);
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error(`Error following ${relativePath} since commit ${commit}:`, error);
+      return undefined;
+    } finally {
+      if (tempDir) {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+      }
+    }
+  }
+
   // ─── NEW FUNCTIONALITY ──────────────────────────────────────────────
 
   /**
    * Get the list of files changed in a specific commit.
    */
-  private async getFilesForCommit(commit: string, cwd: string): Promise<string[]> {
-    const execPromise = util.promisify(cp.exec);
+  public async getFilesForCommit(commit: string, cwd: string): Promise<string[]> {
+    return (await this.getFilesForCommits([commit], cwd)).get(commit) ?? [];
+  }
+
+  /**
+   * Get the files changed by each of several commits of one repository with a single
+   * `git diff-tree --stdin` call.
+   */
+  public async getFilesForCommits(commits: string[], cwd: string): Promise<Map<string, string[]>> {
+    const filesByCommit = new Map<string, string[]>(commits.map(commit => [commit, []]));
+    if (commits.length === 0) {
+      return filesByCommit;
+    }
+    const execFilePromise = util.promisify(cp.execFile);
     try {
-      const { stdout } = await execPromise(
-        `git diff-tree --no-commit-id --name-only -r ${commit}`,
-        { cwd }
-      );
-      return stdout.split('\n').filter(line => line.trim().length > 0);
+      // `diff-tree --stdin` only understands full ids; abbreviated ones would be echoed back unchanged
+      const requested = Array.from(filesByCommit.keys());
+      const fullIds = await this._toFullCommitIds(requested, cwd);
+      const { stdout } = await this._gitPool.run(() => {
+        const diffTree = execFilePromise(
+          'git',
+          ['diff-tree', '--stdin', '-z', '--root', '--always', '--name-only', '-r', '--format=%x1e%H'],
+          { cwd, maxBuffer: GIT_MAX_BUFFER }
+        );
+        diffTree.child.stdin?.end(fullIds.join('\n') + '\n');
+        return diffTree;
+      });
+      // NUL-separated: with `--always` every commit, in input order, prints a "\x1e<id>" header (followed
+      // by a newline) and then the files it changed, so headers are matched by position, not by name
+      let next = 0;
+      let files: string[] | undefined;
+      let afterHeader = false;
+      for (const token of stdout.split('\0')) {
+        if (next < fullIds.length && token === `\x1e${fullIds[next]}`) {
+          files = filesByCommit.get(requested[next]);
+          next++;
+          afterHeader = true;
+          continue;
+        }
+        const file = afterHeader && token.startsWith('\n') ? token.substring(1) : token;
+        afterHeader = false;
+        if (file.length > 0) {
+          files?.push(file);
+        }
+      }
     } catch (error) {
-      console.error(`Error getting files for commit ${commit}:`, error);
-      return [];
+      console.error(`Error getting files for commits ${commits.join(', ')}:`, error);
     }
+    return filesByCommit;
+  }
+
+  // Expand abbreviated commit ids with one `git rev-parse`; full ids are passed through as they are
+  private async _toFullCommitIds(commits: string[], cwd: string): Promise<string[]> {
+    const abbreviated = commits.filter(commit => !/^(?:[0-9a-f]{40}|[0-9a-f]{64})$/.test(commit));
+    if (abbreviated.length === 0) {
+      return commits;
+    }
+    const execFilePromise = util.promisify(cp.execFile);
+    const { stdout } = await this._gitPool.run(() => execFilePromise(
+      'git',
+      ['rev-parse', ...abbreviated.map(commit => `${commit}^{commit}`)],
+      { cwd }
+    ));
+    const expanded = new Map(stdout.trim().split('\n').map((fullId, index) => [abbreviated[index], fullId.trim()]));
+    return commits.map(commit => expanded.get(commit) ?? commit);
   }
 
   /**
    * Update highlighted files based on a list of commit hashes.
-   * This method queries Git for each commit's changed files and marks them as highlighted,
-   * so that the Explorer decorations update automatically.
+   * This method queries Git for the changed files of all commits at once per repository the
+   * commits were found in, and marks them as highlighted so that the Explorer decorations update automatically.
    */
-  public async updateFilesForCommits(commitIdentifiers: string[]): Promise<void> {
-    // Clear previous highlighted files
-    this._highlightedFiles.clear();
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return;
+  public async updateFilesForCommits(commits: string[], commitRepositories: Map<string, string[]>): Promise<void> {
+    const generation = ++this._fileUpdateGeneration;
+    const commitsByRepository = new Map<string, string[]>();
+    for (const commit of commits) {
+      for (const repositoryRoot of commitRepositories.get(commit) ?? []) {
+        commitsByRepository.set(repositoryRoot, [...(commitsByRepository.get(repositoryRoot) ?? []), commit]);
+      }
     }
-    const workspacePath = workspaceFolders[0].uri.fsPath;
-  
-    for (const identifier of commitIdentifiers) {
-      let commit = identifier;
-      // If the identifier looks like a Change-Id (e.g., starts with 'I'), try to resolve it
-      if (identifier.startsWith('I')) {
-        const resolved = await this.resolveChangeId(identifier, workspacePath);
-        if (resolved) {
-          commit = resolved;
-        } else {
-          console.warn(`Could not resolve Change-Id: ${identifier}`);
-          continue; // Skip if it cannot be resolved
+
+    const highlightedFiles = new Map<string, HighlightedFileInfo>();
+    for (const [repositoryRoot, repositoryCommits] of commitsByRepository) {
+      const filesByCommit = await this.getFilesForCommits(repositoryCommits, repositoryRoot);
+      filesByCommit.forEach((files, commit) => {
+        for (const file of files) {
+          const absolutePath = path.join(repositoryRoot, file);
+          const fileInfo = highlightedFiles.get(absolutePath) ?? {
+            uri: vscode.Uri.file(absolutePath),
+            touchingCommits: new Set<string>(),
+            commitCounts: new Map<string, number>(),
+            counted: false
+          };
+          fileInfo.touchingCommits.add(commit);
+          highlightedFiles.set(absolutePath, fileInfo);
         }
-      }
-  
-      const files = await this.getFilesForCommit(commit, workspacePath);
-      for (const file of files) {
-        const absolutePath = path.join(workspacePath, file);
-        this._highlightedFiles.set(absolutePath, {
-          uri: vscode.Uri.file(absolutePath),
-          highlightCount: 1
-        });
-      }
+      });
     }
+    // A newer update started while git was running
+    if (generation !== this._fileUpdateGeneration) {
+      return;
+    }
+    // Show the previous counts of commits still in the set until the files are recounted, so badges don't flicker
+    const commitSet = new Set(commits);
+    this._highlightedFiles.forEach((fileInfo, filePath) => {
+      const counts = Array.from(fileInfo.commitCounts).filter(([commit]) => commitSet.has(commit));
+      if (counts.length === 0) {
+        return;
+      }
+      const merged = highlightedFiles.get(filePath)
+        ?? { uri: fileInfo.uri, touchingCommits: new Set<string>(), commitCounts: new Map<string, number>(), counted: false };
+      counts.forEach(([commit, count]) => merged.commitCounts.set(commit, count));
+      highlightedFiles.set(filePath, merged);
+    });
+    this._highlightedFiles = highlightedFiles;
     // Notify VS Code to update Explorer decorations
     this._refreshFileExplorerDecorations();
+    await this._countFilesInBackground(generation, commitSet);
   }
-  
-  private async resolveChangeId(changeId: string, cwd: string): Promise<string | null> {
-    // Use git log to resolve a Change-Id to a commit hash.
-    const execPromise = util.promisify(cp.exec);
-    try {
-      const { stdout } = await execPromise(
-        `git log --grep="Change-Id: ${changeId}" --format="%H" -n 1`,
-        { cwd }
-      );
-      const commitHash = stdout.trim();
-      return commitHash.length > 0 ? commitHash : null;
-    } catch (error) {
-      console.error(`Error resolving Change-Id ${changeId}:`, error);
-      return null;
+
+  // Count the surviving lines of every tracked file, so the Explorer is accurate without opening each one
+  private async _countFilesInBackground(generation: number, commits: Set<string>) {
+    let changed = 0;
+    for (const [filePath, fileInfo] of Array.from(this._highlightedFiles)) {
+      if (generation !== this._fileUpdateGeneration) {
+        return;
+      }
+      // Deleted files and submodules (listed as changed paths) cannot be blamed
+      const stat = await fs.promises.stat(filePath).catch(() => undefined);
+      if (!stat?.isFile()) {
+        this._highlightedFiles.delete(filePath);
+        changed++;
+        continue;
+      }
+      const counts = await this._countHighlightedLines(filePath, commits, fileInfo.touchingCommits);
+      // A newer update, or an editor highlighting the file meanwhile, has the final say
+      if (generation !== this._fileUpdateGeneration || this._highlightedFiles.get(filePath) !== fileInfo || fileInfo.counted) {
+        continue;
+      }
+      fileInfo.commitCounts = counts;
+      fileInfo.counted = true;
+      if (counts.size === 0 && fileInfo.touchingCommits.size === 0) {
+        this._highlightedFiles.delete(filePath);
+      }
+      if (++changed % BACKGROUND_COUNT_BATCH === 0) {
+        this._refreshFileExplorerDecorations();
+      }
+    }
+    if (changed % BACKGROUND_COUNT_BATCH !== 0) {
+      this._refreshFileExplorerDecorations();
     }
-  }  
-}
\ No newline at end of file
+  }
+}
+
+function fileHighlightState(fileInfo: HighlightedFileInfo): FileHighlightState {
+  if (fileInfo.commitCounts.size > 0) {
+    return 'surviving';
+  }
+  return fileInfo.counted ? 'rewritten' : 'counting';
+}
+
+function sumCounts(counts: Map<string, number>): number {
+  return Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+}
+
+// Explorer badges hold at most two characters
+function formatBadgeCount(count: number): string {
+  return count > 99 ? '99' : String(count);
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// A dot in the commit's color for the gutter of highlighted lines
+function gutterDotIcon(color: string): vscode.Uri {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><circle cx="8" cy="8" r="4" fill="${color}"/></svg>`;
+  return vscode.Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(svg)}`);
+}
+
+// A small triangle in the commit's color, drawn at the top of the gutter where lines were deleted
+function deletionMarkerIcon(color: string): vscode.Uri {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><path d="M0 0 L8 0 L0 8 Z" fill="${color}"/></svg>`;
+  return vscode.Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(svg)}`);
+}
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as path from 'path';
+import * as util from 'util';
+
+// Delay before reporting a change, since a checkout, pull or rebase rewrites several refs
+const REF_CHANGE_DEBOUNCE_MS = 300;
+
+/**
+ * Tracks the checked-out commit (HEAD) of each repository and watches its HEAD and local refs,
+ * so blame results can be keyed by HEAD and highlights refreshed after a checkout, pull or rebase.
+ */
+export class HeadWatcher {
+  private _heads: Map<string, Promise<string | undefined>> = new Map();
+  private _watchers: Map<string, vscode.Disposable[]> = new Map();
+  private _changeTimers: Map<string, NodeJS.Timeout> = new Map();
+  private _onDidChangeHead = new vscode.EventEmitter<string>();
+
+  /**
+   * Fired with the repository root when its HEAD, a local branch or a tag changed.
+   */
+  public readonly onDidChangeHead = this._onDidChangeHead.event;
+
+  /**
+   * Get the commit HEAD points to (undefined on an unborn branch), and start watching the repository.
+   */
+  public getHead(repositoryRoot: string): Promise<string | undefined> {
+    let head = this._heads.get(repositoryRoot);
+    if (!head) {
+      head = this._readHead(repositoryRoot);
+      this._heads.set(repositoryRoot, head);
+    }
+    if (!this._watchers.has(repositoryRoot)) {
+      this._watch(repositoryRoot);
+    }
+    return head;
+  }
+
+  private async _readHead(repositoryRoot: string): Promise<string | undefined> {
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await execFilePromise('git', ['rev-parse', '--verify', '--quiet', 'HEAD'], { cwd: repositoryRoot });
+      return stdout.trim() || undefined;
+    } catch (error) {
+      // No commits yet
+      return undefined;
+    }
+  }
+
+  // Watch HEAD in the repository's git directory and the refs in its common directory (shared by worktrees)
+  private async _watch(repositoryRoot: string) {
+    const disposables: vscode.Disposable[] = [];
+    this._watchers.set(repositoryRoot, disposables);
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await execFilePromise(
+        'git',
+        ['rev-parse', '--absolute-git-dir', '--git-common-dir'],
+        { cwd: repositoryRoot }
+      );
+      const [gitDir, commonDir] = stdout.split('\n').map(line => line.trim());
+      const patterns = [
+        new vscode.RelativePattern(vscode.Uri.file(gitDir), 'HEAD'),
+        new vscode.RelativePattern(vscode.Uri.file(path.resolve(repositoryRoot, commonDir)), '{packed-refs,refs/heads/**,refs/tags/**}')
+      ];
+      for (const pattern of patterns) {
+        const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        disposables.push(
+          watcher,
+          watcher.onDidChange(() => this._scheduleChange(repositoryRoot)),
+          watcher.onDidCreate(() => this._scheduleChange(repositoryRoot)),
+          watcher.onDidDelete(() => this._scheduleChange(repositoryRoot))
+        );
+      }
+    } catch (error) {
+      console.error(`Error watching the git directory of ${repositoryRoot}:`, error);
+    }
+  }
+
+  private _scheduleChange(repositoryRoot: string) {
+    const pending = this._changeTimers.get(repositoryRoot);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    this._changeTimers.set(repositoryRoot, setTimeout(() => {
+      this._changeTimers.delete(repositoryRoot);
+      console.log(`Refs changed in ${repositoryRoot}`);
+      this._heads.delete(repositoryRoot);
+      this._onDidChangeHead.fire(repositoryRoot);
+    }, REF_CHANGE_DEBOUNCE_MS));
+  }
+
+  public dispose() {
+    this._changeTimers.forEach(timer => clearTimeout(timer));
+    this._changeTimers.clear();
+    this._watchers.forEach(disposables => disposables.forEach(disposable => disposable.dispose()));
+    this._watchers.clear();
+    this._onDidChangeHead.dispose();
+  }
+}
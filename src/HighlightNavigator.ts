@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { SidebarProvider } from './SidebarProvider';
+import { LineRange } from './lineRanges';
+
+type Direction = 'next' | 'previous';
+
+/**
+ * Moves the cursor through contiguous highlighted blocks, first within the current file
+ * and then on into the other highlighted files.
+ */
+export class HighlightNavigator {
+  // When set, navigation only stops at blocks from this commit
+  private _commitFilter: string | undefined;
+
+  constructor(private readonly _sidebarProvider: SidebarProvider) {}
+
+  /**
+   * Go to the next (or previous) highlighted block. An explicit commit overrides the chosen filter,
+   * and an explicit line (e.g. the end of a block a CodeLens sits on) replaces the cursor line.
+   */
+  public async navigate(direction: Direction, commit?: string, fromLine?: number) {
+    if (!this._sidebarProvider.isHighlightingEnabled) {
+      vscode.window.showInformationMessage('Commit hash highlighting is off');
+      return;
+    }
+    const commits = this._getCommits(commit);
+    const service = this._sidebarProvider.gitBlameService;
+    // A line filter highlights lines without listing their commits
+    if (commits.length === 0 && !service.lineFilter) {
+      vscode.window.showInformationMessage('No commits are being highlighted');
+      return;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    const currentPath = editor?.document.uri.scheme === 'file' ? editor.document.uri.fsPath : undefined;
+
+    // First look for a block in the current file after (or before) the cursor
+    if (editor && currentPath) {
+      const cursorLine = fromLine ?? editor.selection.active.line;
+      const ranges = await service.getHighlightedRanges(currentPath, commits);
+      const target = direction === 'next'
+        ? ranges.find(range => range.start > cursorLine)
+        : ranges.filter(range => range.start < cursorLine).pop();
+      if (target) {
+        this._reveal(editor, target);
+        return;
+      }
+    }
+
+    // Then continue through the other highlighted files, wrapping around to the current one
+    const files = service.getHighlightedFilePaths().filter(filePath => fs.existsSync(filePath));
+    if (currentPath && !files.includes(currentPath)) {
+      files.push(currentPath);
+      files.sort();
+    }
+    if (direction === 'previous') {
+      files.reverse();
+    }
+    const startIndex = currentPath ? files.indexOf(currentPath) + 1 : 0;
+    for (let i = 0; i < files.length; i++) {
+      const filePath = files[(startIndex + i) % files.length];
+      const ranges = await service.getHighlightedRanges(filePath, commits);
+      if (ranges.length === 0) {
+        continue;
+      }
+      const target = direction === 'next' ? ranges[0] : ranges[ranges.length - 1];
+      const nextEditor = await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+      this._reveal(nextEditor, target);
+      return;
+    }
+    vscode.window.showInformationMessage('No highlighted changes found');
+  }
+
+  /**
+   * Let the user choose a single commit to navigate through, or go back to all commits.
+   */
+  public async chooseCommitFilter() {
+    const service = this._sidebarProvider.gitBlameService;
+    const allItem: vscode.QuickPickItem = { label: '$(list-flat) All highlighted commits' };
+    const commitItems = await Promise.all(this._sidebarProvider.getHighlightCommits().map(async hash => {
+      const root = this._sidebarProvider.getCommitRepositories(hash)[0];
+      const message = root ? await service.getCommitMessage(hash, root) : '';
+      return {
+        label: `$(git-commit) ${hash.substring(0, 8)}`,
+        description: message.split('\n')[0],
+        picked: hash === this._commitFilter,
+        hash
+      };
+    }));
+    const choice = await vscode.window.showQuickPick<vscode.QuickPickItem & { hash?: string }>(
+      [allItem, ...commitItems],
+      { placeHolder: 'Limit highlight navigation to a commit' }
+    );
+    if (!choice) {
+      return;
+    }
+    this._commitFilter = choice.hash;
+    vscode.window.showInformationMessage(
+      choice.hash
+        ? `Highlight navigation limited to ${choice.hash.substring(0, 8)}`
+        : 'Highlight navigation covers all commits'
+    );
+  }
+
+  private _getCommits(commit: string | undefined): string[] {
+    const commits = this._sidebarProvider.getHighlightCommits();
+    const filter = commit ?? this._commitFilter;
+    if (filter && commits.includes(filter)) {
+      return [filter];
+    }
+    return commits;
+  }
+
+  private _reveal(editor: vscode.TextEditor, range: LineRange) {
+    const position = new vscode.Position(range.start, 0);
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(
+      new vscode.Range(range.start, 0, range.end, 0),
+      vscode.TextEditorRevealType.InCenterIfOutsideViewport
+    );
+  }
+}
@@ -0,0 +1,213 @@
+import * as vscode from 'vscode';
+import { HighlightMode } from './GitBlameService';
+import { LineFilter } from './lineFilter';
+
+// Key under which highlight sets are stored in the workspace state
+const HIGHLIGHT_SETS_KEY = 'commitHashHighlighter.highlightSets';
+
+const DEFAULT_SET_NAME = 'Default';
+
+// Project file that review sets can be committed to and shared through
+export const PROJECT_FILE_PATH = '.vscode/commit-highlights.json';
+
+// Where the highlighted commits come from: the entries of the active set, the checked-out branch,
+// or the commits matching an author/date filter
+export type CommitSource = 'entries' | 'branch' | 'filter';
+
+// A named list of sidebar entries (hashes, refs, ranges, queries, Change-Ids)
+export interface HighlightSet {
+  name: string;
+  entries: string[];
+}
+
+interface StoredHighlightSets {
+  activeSetName: string;
+  isHighlightingEnabled: boolean;
+  // Missing in state saved before diff mode existed
+  highlightMode?: HighlightMode;
+  // Missing in state saved before "My branch" mode existed
+  commitSource?: CommitSource;
+  lineFilter?: LineFilter;
+  sets: HighlightSet[];
+}
+
+// Format of the shareable project file
+interface ProjectFile {
+  version: 1;
+  sets: HighlightSet[];
+}
+
+/**
+ * Persists named highlight sets, the active set and the on/off state in the workspace state,
+ * and imports/exports the sets from/to a project file.
+ */
+export class HighlightSetStore {
+  private _data: StoredHighlightSets;
+
+  constructor(private readonly _state: vscode.Memento) {
+    this._data = this._state.get<StoredHighlightSets>(HIGHLIGHT_SETS_KEY) ?? {
+      activeSetName: DEFAULT_SET_NAME,
+      isHighlightingEnabled: false,
+      sets: [{ name: DEFAULT_SET_NAME, entries: [] }]
+    };
+    if (this._data.sets.length === 0) {
+      this._data.sets.push({ name: DEFAULT_SET_NAME, entries: [] });
+    }
+    if (!this._data.sets.some(set => set.name === this._data.activeSetName)) {
+      this._data.activeSetName = this._data.sets[0].name;
+    }
+  }
+
+  public get activeSet(): HighlightSet {
+    return this._data.sets.find(set => set.name === this._data.activeSetName) ?? this._data.sets[0];
+  }
+
+  public get setNames(): string[] {
+    return this._data.sets.map(set => set.name);
+  }
+
+  public get isHighlightingEnabled(): boolean {
+    return this._data.isHighlightingEnabled;
+  }
+
+  public async setHighlightingEnabled(enabled: boolean): Promise<void> {
+    this._data.isHighlightingEnabled = enabled;
+    await this._save();
+  }
+
+  public get highlightMode(): HighlightMode {
+    return this._data.highlightMode ?? 'blame';
+  }
+
+  public async setHighlightMode(mode: HighlightMode): Promise<void> {
+    this._data.highlightMode = mode;
+    await this._save();
+  }
+
+  public get commitSource(): CommitSource {
+    return this._data.commitSource ?? 'entries';
+  }
+
+  public async setCommitSource(source: CommitSource): Promise<void> {
+    this._data.commitSource = source;
+    await this._save();
+  }
+
+  public get lineFilter(): LineFilter {
+    return this._data.lineFilter ?? { author: '', since: '', until: '' };
+  }
+
+  public async setLineFilter(filter: LineFilter): Promise<void> {
+    this._data.lineFilter = filter;
+    await this._save();
+  }
+
+  /**
+   * Replace the entries of the active set.
+   */
+  public async updateEntries(entries: string[]): Promise<void> {
+    this.activeSet.entries = [...entries];
+    await this._save();
+  }
+
+  /**
+   * Create a new set and make it the active one.
+   */
+  public async createSet(name: string, entries: string[] = []): Promise<void> {
+    this._assertNameAvailable(name);
+    this._data.sets.push({ name, entries: [...entries] });
+    this._data.activeSetName = name;
+    await this._save();
+  }
+
+  public async renameSet(oldName: string, newName: string): Promise<void> {
+    const set = this._getSet(oldName);
+    if (oldName !== newName) {
+      this._assertNameAvailable(newName);
+    }
+    set.name = newName;
+    if (this._data.activeSetName === oldName) {
+      this._data.activeSetName = newName;
+    }
+    await this._save();
+  }
+
+  /**
+   * Delete a set. The last remaining set cannot be deleted, only emptied.
+   */
+  public async deleteSet(name: string): Promise<void> {
+    this._getSet(name);
+    if (this._data.sets.length === 1) {
+      throw new Error('The last highlight set cannot be deleted');
+    }
+    this._data.sets = this._data.sets.filter(set => set.name !== name);
+    if (this._data.activeSetName === name) {
+      this._data.activeSetName = this._data.sets[0].name;
+    }
+    await this._save();
+  }
+
+  public async switchSet(name: string): Promise<void> {
+    this._getSet(name);
+    this._data.activeSetName = name;
+    await this._save();
+  }
+
+  /**
+   * Read the sets from the project file in `folder`. Sets with an existing name replace it.
+   * Returns the number of imported sets.
+   */
+  public async importFromProjectFile(folder: vscode.Uri): Promise<number> {
+    const fileUri = vscode.Uri.joinPath(folder, PROJECT_FILE_PATH);
+    const content = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8');
+    const parsed = JSON.parse(content) as Partial<ProjectFile>;
+    if (!Array.isArray(parsed.sets)) {
+      throw new Error(`${PROJECT_FILE_PATH} does not contain a "sets" array`);
+    }
+    let imported = 0;
+    for (const set of parsed.sets) {
+      if (typeof set?.name !== 'string' || !Array.isArray(set.entries)) {
+        continue;
+      }
+      const entries = set.entries.filter((entry): entry is string => typeof entry === 'string');
+      const existing = this._data.sets.find(known => known.name === set.name);
+      if (existing) {
+        existing.entries = entries;
+      } else {
+        this._data.sets.push({ name: set.name, entries });
+      }
+      imported++;
+    }
+    await this._save();
+    return imported;
+  }
+
+  /**
+   * Write all sets to the project file in `folder`, returning the file's URI.
+   */
+  public async exportToProjectFile(folder: vscode.Uri): Promise<vscode.Uri> {
+    const fileUri = vscode.Uri.joinPath(folder, PROJECT_FILE_PATH);
+    const content: ProjectFile = { version: 1, sets: this._data.sets };
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(fileUri, '..'));
+    await vscode.workspace.fs.writeFile(fileUri, Buffer.from(JSON.stringify(content, null, 2) + '\n', 'utf8'));
+    return fileUri;
+  }
+
+  private _getSet(name: string): HighlightSet {
+    const set = this._data.sets.find(known => known.name === name);
+    if (!set) {
+      throw new Error(`Highlight set '${name}' does not exist`);
+    }
+    return set;
+  }
+
+  private _assertNameAvailable(name: string) {
+    if (this._data.sets.some(set => set.name === name)) {
+      throw new Error(`A highlight set named '${name}' already exists`);
+    }
+  }
+
+  private async _save(): Promise<void> {
+    await this._state.update(HIGHLIGHT_SETS_KEY, this._data);
+  }
+}
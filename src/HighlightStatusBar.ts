@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { SidebarProvider } from './SidebarProvider';
+
+// Commits listed in the tooltip; the ones with the most surviving lines come first
+const MAX_TOOLTIP_ROWS = 15;
+
+/**
+ * Status bar item showing whether highlighting is on and how much is highlighted, e.g.
+ * "3 commits · 42 lines here · 17 files". Clicking it toggles highlighting.
+ */
+export class HighlightStatusBar {
+  private _item: vscode.StatusBarItem;
+  private _disposables: vscode.Disposable[] = [];
+  // Incremented on every update so a slow (subject lookup) update never overwrites a newer one
+  private _updateGeneration = 0;
+
+  constructor(private readonly _sidebarProvider: SidebarProvider) {
+    this._item = vscode.window.createStatusBarItem('commit-hash-highlighter.status', vscode.StatusBarAlignment.Left, 50);
+    this._item.name = 'Commit Hash Highlighter';
+    this._item.command = 'commit-hash-highlighter.toggleHighlighting';
+    this._disposables.push(
+      this._sidebarProvider.onDidChangeCommits(() => this.update()),
+      this._sidebarProvider.gitBlameService.onDidChangeHighlights(() => this.update()),
+      vscode.window.onDidChangeActiveTextEditor(() => this.update())
+    );
+    this.update();
+    this._item.show();
+  }
+
+  /**
+   * Recompute the text and the per-commit tooltip.
+   */
+  public async update() {
+    const generation = ++this._updateGeneration;
+    const service = this._sidebarProvider.gitBlameService;
+    const setName = this._sidebarProvider.getHighlightSets().active;
+
+    if (!this._sidebarProvider.isHighlightingEnabled) {
+      this._item.text = '$(circle-outline) Highlighting off';
+      this._item.tooltip = this._buildTooltip(setName, []);
+      return;
+    }
+
+    const commits = this._sidebarProvider.getHighlightCommits();
+    const editor = vscode.window.activeTextEditor;
+    // Counts are kept for working tree files only, not for the older versions shown in diff editors
+    const hereCounts = editor?.document.uri.scheme === 'file'
+      ? service.getHighlightCounts(editor.document.uri.fsPath)
+      : new Map<string, number>();
+    const linesHere = Array.from(hereCounts.values()).reduce((sum, count) => sum + count, 0);
+    const fileCount = service.getHighlightedFilePaths().length;
+    // A line filter selects lines by author and date, without a commit list to count
+    const scope = service.lineFilter ? 'Filter' : pluralize(commits.length, 'commit');
+    this._item.text = `$(circle-filled) ${scope} · ${pluralize(linesHere, 'line')} here · ${pluralize(fileCount, 'file')}`;
+
+    const totals = service.getHighlightTotals();
+    const shown = commits
+      .map(hash => ({ hash, total: totals.get(hash) ?? { files: 0, lines: 0 } }))
+      .sort((a, b) => b.total.lines - a.total.lines)
+      .slice(0, MAX_TOOLTIP_ROWS);
+
+    // One batched subject lookup per repository
+    const hashesByRepository = new Map<string, string[]>();
+    for (const { hash } of shown) {
+      const root = this._sidebarProvider.getCommitRepositories(hash)[0];
+      if (root) {
+        hashesByRepository.set(root, [...(hashesByRepository.get(root) ?? []), hash]);
+      }
+    }
+    const subjects = new Map<string, string>();
+    for (const [root, hashes] of hashesByRepository) {
+      (await service.getCommitDetailsBatch(hashes, root)).forEach((details, hash) => subjects.set(hash, details.subject));
+      // A newer update has started; its results replace these
+      if (generation !== this._updateGeneration) {
+        return;
+      }
+    }
+
+    const rows = shown.map(({ hash, total }) =>
+      `| \`${hash.substring(0, 7)}\` | ${escapeTableCell(subjects.get(hash) ?? '')} | ${hereCounts.get(hash) ?? 0} | ${total.lines} | ${total.files} |`
+    );
+    this._item.tooltip = this._buildTooltip(setName, rows, commits.length - shown.length);
+  }
+
+  // Per-commit counts ("here" is the active editor; totals cover every file with surviving lines)
+  private _buildTooltip(setName: string, rows: string[], hiddenCommits = 0): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString(undefined, true);
+    tooltip.isTrusted = {
+      enabledCommands: ['commit-hash-highlighter.toggleHighlighting', 'commit-hash-highlighter.switchHighlightSet']
+    };
+    tooltip.appendMarkdown('**Commit Hash Highlighter** · set ');
+    tooltip.appendText(`'${setName}'`);
+    tooltip.appendMarkdown('\n\n');
+    if (rows.length > 0) {
+      tooltip.appendMarkdown('| Commit | Subject | Lines here | Surviving lines | Files |\n');
+      tooltip.appendMarkdown('|---|---|---:|---:|---:|\n');
+      tooltip.appendMarkdown(rows.join('\n') + '\n\n');
+    }
+    if (hiddenCommits > 0) {
+      tooltip.appendMarkdown(`_and ${pluralize(hiddenCommits, 'more commit')}_\n\n`);
+    }
+    tooltip.appendMarkdown('[$(eye) Toggle highlighting](command:commit-hash-highlighter.toggleHighlighting)');
+    tooltip.appendMarkdown(' · [$(list-selection) Switch set...](command:commit-hash-highlighter.switchHighlightSet)');
+    return tooltip;
+  }
+
+  public dispose() {
+    this._disposables.forEach(disposable => disposable.dispose());
+    this._item.dispose();
+  }
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
@@ -0,0 +1,58 @@
+/**
+ * A map holding at most `maxSize` entries, evicting the least recently used one when full.
+ * Relies on Map keeping insertion order: every access moves an entry to the end.
+ */
+export class LruCache<K, V> {
+  private _entries: Map<K, V> = new Map();
+
+  constructor(private _maxSize: number) {}
+
+  public get size(): number {
+    return this._entries.size;
+  }
+
+  public get(key: K): V | undefined {
+    const value = this._entries.get(key);
+    if (value !== undefined) {
+      this._entries.delete(key);
+      this._entries.set(key, value);
+    }
+    return value;
+  }
+
+  public set(key: K, value: V) {
+    this._entries.delete(key);
+    this._entries.set(key, value);
+    this._evict();
+  }
+
+  /**
+   * Change the capacity, evicting the least recently used entries that no longer fit.
+   */
+  public resize(maxSize: number) {
+    this._maxSize = maxSize;
+    this._evict();
+  }
+
+  /**
+   * Remove every entry whose key matches.
+   */
+  public deleteWhere(predicate: (key: K) => boolean) {
+    for (const key of Array.from(this._entries.keys())) {
+      if (predicate(key)) {
+        this._entries.delete(key);
+      }
+    }
+  }
+
+  public clear() {
+    this._entries.clear();
+  }
+
+  private _evict() {
+    while (this._entries.size > Math.max(this._maxSize, 0)) {
+      const oldest = this._entries.keys().next().value as K;
+      this._entries.delete(oldest);
+    }
+  }
+}
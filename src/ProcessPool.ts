@@ -0,0 +1,31 @@
+/**
+ * Runs at most `maxConcurrent` tasks (e.g. git processes) at a time; the rest wait in a FIFO queue.
+ */
+export class ProcessPool {
+  private _running = 0;
+  private _queue: (() => void)[] = [];
+
+  constructor(private readonly _maxConcurrent: number) {}
+
+  /**
+   * Run a task as soon as a slot is free, resolving with its result.
+   */
+  public async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this._running >= this._maxConcurrent) {
+      // The finishing task hands its slot over, so `_running` already counts this one
+      await new Promise<void>(resolve => this._queue.push(resolve));
+    } else {
+      this._running++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this._queue.shift();
+      if (next) {
+        next();
+      } else {
+        this._running--;
+      }
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
+
+/**
+ * Finds the git repository that owns a file, and the repositories that make up the workspace
+ * (every workspace folder, their submodules, and nested repositories seen so far).
+ */
+export class RepositoryLocator {
+  // Repository root per directory, so sibling files don't each spawn git
+  private _rootsByDirectory: Map<string, Promise<string | undefined>> = new Map();
+  private _knownRepositories: Set<string> = new Set();
+  private _onDidDiscoverRepository = new vscode.EventEmitter<string>();
+  private _workspaceFoldersListener: vscode.Disposable;
+
+  /**
+   * Fired when a repository that was not part of the known set is found, e.g. a nested repo
+   * containing a file that was just opened.
+   */
+  public readonly onDidDiscoverRepository = this._onDidDiscoverRepository.event;
+
+  constructor() {
+    this._workspaceFoldersListener = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      this._rootsByDirectory.clear();
+      this._knownRepositories.clear();
+    });
+  }
+
+  /**
+   * Get the root of the repository (or submodule) that contains `filePath`.
+   */
+  public async getRepositoryRoot(filePath: string): Promise<string | undefined> {
+    let directory = path.dirname(filePath);
+    // Deleted files: ask git from the closest directory that still exists
+    while (!fs.existsSync(directory) && path.dirname(directory) !== directory) {
+      directory = path.dirname(directory);
+    }
+    let root = this._rootsByDirectory.get(directory);
+    if (!root) {
+      root = this._showToplevel(directory);
+      this._rootsByDirectory.set(directory, root);
+    }
+    const resolved = await root;
+    if (resolved && !this._knownRepositories.has(resolved)) {
+      this._knownRepositories.add(resolved);
+      this._onDidDiscoverRepository.fire(resolved);
+    }
+    return resolved;
+  }
+
+  /**
+   * Get all repositories in the workspace: each folder's repository, its submodules (recursively)
+   * and any nested repository discovered through `getRepositoryRoot`.
+   */
+  public async getWorkspaceRepositories(): Promise<string[]> {
+    const repositories = new Set(this._knownRepositories);
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const root = await this._showToplevel(folder.uri.fsPath);
+      if (!root) {
+        continue;
+      }
+      repositories.add(root);
+      (await this._listSubmodules(root)).forEach(submodule => repositories.add(submodule));
+    }
+    repositories.forEach(repository => this._knownRepositories.add(repository));
+    return Array.from(repositories).sort();
+  }
+
+  /**
+   * Short, human-readable name for a repository root (its path relative to the workspace folder).
+   */
+  public getDisplayName(repositoryRoot: string): string {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(repositoryRoot));
+    if (!folder) {
+      return path.basename(repositoryRoot);
+    }
+    const relative = path.relative(folder.uri.fsPath, repositoryRoot);
+    return relative ? path.join(folder.name, relative) : folder.name;
+  }
+
+  private async _showToplevel(directory: string): Promise<string | undefined> {
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await execFilePromise('git', ['rev-parse', '--show-toplevel'], { cwd: directory });
+      const root = stdout.trim();
+      // git prints forward slashes on Windows
+      return root.length > 0 ? path.normalize(root) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async _listSubmodules(root: string): Promise<string[]> {
+    const execFilePromise = util.promisify(cp.execFile);
+    try {
+      const { stdout } = await execFilePromise(
+        'git',
+        ['submodule', 'foreach', '--quiet', '--recursive', 'pwd'],
+        { cwd: root }
+      );
+      return stdout.split('\n').map(line => line.trim()).filter(line => line.length > 0).map(line => path.normalize(line));
+    } catch (error) {
+      console.error(`Error listing submodules of ${root}:`, error);
+      return [];
+    }
+  }
+
+  public dispose() {
+    this._workspaceFoldersListener.dispose();
+    this._onDidDiscoverRepository.dispose();
+  }
+}
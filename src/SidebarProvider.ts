@@ -1,14 +1,74 @@
 import * as vscode from 'vscode';
-import { GitBlameService } from './GitBlameService';
+import { GitBlameService, HighlightMode } from './GitBlameService';
+import { CommitResolver, PatchEquivalents, ResolvedEntry } from './CommitResolver';
+import { CommitColorRegistry } from './CommitColors';
+import { RepositoryLocator } from './RepositoryLocator';
+import { HeadWatcher } from './HeadWatcher';
+import { CommitSource, HighlightSetStore, PROJECT_FILE_PATH } from './HighlightSetStore';
+import { CONFIGURATION_SECTION, getBranchBase, isPatchIdMatchingEnabled } from './configuration';
+import { LineFilter } from './lineFilter';
+
+// Maximum number of color swatches shown in the legend for a single entry
+const MAX_LEGEND_SWATCHES = 8;
+
+// Delay before re-blaming an edited buffer
+const DOCUMENT_CHANGE_DEBOUNCE_MS = 500;
 
 export class SidebarProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
   private _commitHashes: string[] = [];
+  private _commitSource: CommitSource;
   private _isHighlightingEnabled: boolean = false;
   private _gitBlameService: GitBlameService;
+  private _colors: CommitColorRegistry;
+  private _highlightSets: HighlightSetStore;
+  private _commitResolver: CommitResolver = new CommitResolver();
+  private _resolvedEntries: ResolvedEntry[] = [];
+  private _resolvedCommits: string[] = [];
+  private _commitRepositories: Map<string, string[]> = new Map();
+  // Recent commits matching the line filter (filter source only), whose files the Explorer badges count
+  private _filterCommitRepositories: Map<string, string[]> = new Map();
+  private _repositories: RepositoryLocator = new RepositoryLocator();
+  private _heads: HeadWatcher = new HeadWatcher();
+  // Commits removed individually from a range or query entry
+  private _removedCommits: Set<string> = new Set();
+  // Commits that stay in the active set but are temporarily not highlighted
+  private _disabledCommits: Set<string> = new Set();
+  private _onDidChangeCommits = new vscode.EventEmitter<void>();
+  private _documentChangeTimer: NodeJS.Timeout | undefined;
+  private _resolution: Promise<void> = Promise.resolve();
+
+  /**
+   * Fired whenever the active commit set, a commit's on/off state, the highlight mode or
+   * the overall on/off state changes.
+   */
+  public readonly onDidChangeCommits = this._onDidChangeCommits.event;
 
-  constructor(private readonly _extensionUri: vscode.Uri) {
-    this._gitBlameService = new GitBlameService();
+  constructor(private readonly _extensionUri: vscode.Uri, workspaceState: vscode.Memento) {
+    this._colors = new CommitColorRegistry(workspaceState);
+    this._highlightSets = new HighlightSetStore(workspaceState);
+    this._commitHashes = [...this._highlightSets.activeSet.entries];
+    this._commitSource = this._highlightSets.commitSource;
+    this._isHighlightingEnabled = this._highlightSets.isHighlightingEnabled;
+    this._gitBlameService = new GitBlameService(this._colors, this._repositories, this._heads);
+    this._gitBlameService.highlightMode = this._highlightSets.highlightMode;
+
+    // Entries may resolve in a nested repository that was only found when one of its files was opened
+    this._repositories.onDidDiscoverRepository(repository => {
+      if (this.hasCommitSource()) {
+        console.log(`Discovered repository ${repository} - resolving entries again`);
+        this.refreshHighlights();
+      }
+    });
+
+    // After a checkout, pull or rebase refs may expand differently and blame is keyed by the new HEAD;
+    // in "My branch" mode this also picks up new commits and branch switches
+    this._heads.onDidChangeHead(repository => {
+      if (this.hasCommitSource()) {
+        console.log(`HEAD or refs changed in ${repository} - resolving entries again`);
+        this.refreshHighlights();
+      }
+    });
 
     // Listen to active editor changes
     vscode.window.onDidChangeActiveTextEditor(editor => {
@@ -18,16 +78,54 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       }
     });
 
-    // Listen to document changes to update highlighting
+    // Listen to document changes to update highlighting. Existing decorations move with the
+    // edited text, so the buffer is only re-blamed once typing pauses.
     vscode.workspace.onDidChangeTextDocument(event => {
       const activeEditor = vscode.window.activeTextEditor;
       if (activeEditor && event.document === activeEditor.document && this._isHighlightingEnabled) {
-        console.log("Document changed - re-applying highlighting");
-        const filePath = activeEditor.document.uri.fsPath;
-        this._gitBlameService.clearBlameCache(filePath);
+        if (this._documentChangeTimer) {
+          clearTimeout(this._documentChangeTimer);
+        }
+        this._documentChangeTimer = setTimeout(() => {
+          this._documentChangeTimer = undefined;
+          console.log("Document changed - re-applying highlighting");
+          this.triggerHighlighting();
+        }, DOCUMENT_CHANGE_DEBOUNCE_MS);
+      }
+    });
+
+    // Blame options are part of the blame cache key, so re-highlighting picks up new settings;
+    // decoration types are built from the style settings and have to be rebuilt
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration(`${CONFIGURATION_SECTION}.decoration`)) {
+        console.log("Decoration settings changed - rebuilding decorations");
+        this._gitBlameService.refreshDecorationStyle();
+        if (this._isHighlightingEnabled) {
+          this.triggerHighlighting();
+        }
+      } else if (event.affectsConfiguration(`${CONFIGURATION_SECTION}.blame`) && this._isHighlightingEnabled) {
+        console.log("Blame settings changed - re-applying highlighting");
         this.triggerHighlighting();
+      } else if (event.affectsConfiguration(`${CONFIGURATION_SECTION}.heatmap`) && this.highlightMode === 'heatmap' && this._isHighlightingEnabled) {
+        console.log("Heatmap settings changed - re-applying highlighting");
+        this.triggerHighlighting();
+      } else if (event.affectsConfiguration(`${CONFIGURATION_SECTION}.patchId`)) {
+        console.log("Patch-id setting changed - resolving entries again");
+        this.refreshHighlights();
+      } else if (event.affectsConfiguration(`${CONFIGURATION_SECTION}.myBranch`)) {
+        this.postCommitSource();
+        if (this._commitSource === 'branch') {
+          console.log("Branch base changed - resolving the branch again");
+          this.refreshHighlights();
+        }
       }
     });
+
+    // Restore the persisted set and on/off state from the previous session
+    vscode.commands.executeCommand('setContext', 'commit-hash-highlighter.highlightingEnabled', this._isHighlightingEnabled);
+    if (this.hasCommitSource()) {
+      this.refreshHighlights();
+    }
   }
 
   public resolveWebviewView(
@@ -44,44 +142,81 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
 
     webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
-    webviewView.webview.onDidReceiveMessage(data => {
+    webviewView.webview.onDidReceiveMessage(async data => {
       switch (data.type) {
         case 'updateCommitHashes': {
-          const newHashes = data.value;
+          const newHashes: string[] = Array.from(new Set<string>(data.value));
           console.log(`Updating commit hashes: ${newHashes.join(', ')}`);
           if (JSON.stringify(this._commitHashes) !== JSON.stringify(newHashes)) {
             this._commitHashes = newHashes;
+            this._removedCommits.clear();
             console.log(`Current hashes: ${this._commitHashes.join(', ')}`);
-            this._gitBlameService.clearAllBlameCache();
-            if (this._isHighlightingEnabled && this._commitHashes.length > 0) {
-              console.log("Highlighting enabled - updating files for commits");
-              // Fetch and mark files changed by these commits.
-              this._gitBlameService.updateFilesForCommits(this._commitHashes);
-              this.triggerHighlighting();
-            }
-            vscode.window.showInformationMessage(`Updated commit hashes (${newHashes.length})`);
+            await this._highlightSets.updateEntries(newHashes);
+            this.refreshHighlights();
           }
           this.saveState();
           break;
         }
-        case 'toggleHighlighting': {
-          this._isHighlightingEnabled = data.value;
-          console.log(`Highlighting toggled to: ${this._isHighlightingEnabled}`);
+        case 'pickCandidate':
+          await this.pickCandidate(data.input, data.hash);
+          break;
+        case 'setEntryEnabled': {
+          const entry = this._resolvedEntries.find(resolved => resolved.input === data.input);
+          if (entry) {
+            await this.setCommitsEnabled(entry.commits, data.enabled);
+          }
+          break;
+        }
+        case 'toggleHighlighting':
+          await this.setHighlightingEnabled(data.value);
+          break;
+        case 'pinColor':
+        case 'unpinColor': {
+          const entry = this._resolvedEntries.find(resolved => resolved.input === data.input);
+          if (!entry) {
+            break;
+          }
+          if (data.type === 'pinColor') {
+            await this._colors.pinColor(entry.commits, data.color);
+          } else {
+            await this._colors.unpinColor(entry.commits);
+          }
+          this.postResolution();
           if (this._isHighlightingEnabled) {
-            if (this._commitHashes.length > 0) {
-              console.log("Highlighting enabled - updating files for commits");
-              this._gitBlameService.updateFilesForCommits(this._commitHashes);
-            }
             this.triggerHighlighting();
-          } else {
-            this._gitBlameService.clearAllHighlights();
           }
-          this.saveState();
-          vscode.window.showInformationMessage(
-            `Commit hash highlighting: ${this._isHighlightingEnabled ? 'ON' : 'OFF'}`
-          );
           break;
         }
+        case 'setHighlightMode':
+          await this.setHighlightMode(data.mode);
+          break;
+        case 'setCommitSource':
+          await this.setCommitSource(data.source);
+          break;
+        case 'chooseBranchBase':
+          await this.chooseBranchBase();
+          break;
+        case 'setLineFilter':
+          await this.setLineFilter({ author: data.author ?? '', since: data.since ?? '', until: data.until ?? '' });
+          break;
+        case 'switchSet':
+          await this.switchHighlightSet(data.name);
+          break;
+        case 'createSet':
+          await this.createHighlightSet();
+          break;
+        case 'renameSet':
+          await this.renameHighlightSet();
+          break;
+        case 'deleteSet':
+          await this.deleteHighlightSet();
+          break;
+        case 'importSets':
+          await this.importHighlightSets();
+          break;
+        case 'exportSets':
+          await this.exportHighlightSets();
+          break;
         case 'viewStateRestored': {
           console.log("Webview requesting stored data");
           this.restoreWebviewState();
@@ -105,41 +240,169 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
   <style>
     body {
       padding: 10px;
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
-      background-color: #1e1e1e;
-      color: #d4d4d4;
+      font-family: var(--vscode-font-family);
+      font-size: var(--vscode-font-size);
+      background-color: var(--vscode-sideBar-background);
+      color: var(--vscode-foreground);
     }
     button {
       margin: 5px 0;
       padding: 5px 10px;
-      background-color: #007ACC;
-      color: white;
-      border: none;
+      background-color: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+      border: 1px solid var(--vscode-button-border, transparent);
       border-radius: 3px;
       cursor: pointer;
     }
     button:hover {
-      background-color: #005999;
+      background-color: var(--vscode-button-hoverBackground);
     }
     textarea {
-      padding: 8px;
-      margin-bottom: 10px;
-      width: 100%;
-      height: 150px;
+      padding: 4px 6px;
+      flex: 1;
+      min-width: 0;
+      height: 28px;
       box-sizing: border-box;
-      font-family: monospace;
+      font-family: var(--vscode-editor-font-family, monospace);
       resize: vertical;
-      background-color: #2d2d2d;
-      color: #d4d4d4;
-      border: 1px solid #3c3c3c;
+      background-color: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, transparent);
     }
     .help-text {
       font-size: 12px;
-      color: #9d9d9d;
+      color: var(--vscode-descriptionForeground);
+      margin-bottom: 10px;
+    }
+    [hidden] {
+      display: none !important;
+    }
+    .filter-form {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
       margin-bottom: 10px;
     }
+    .filter-dates {
+      display: flex;
+      gap: 4px;
+    }
+    .filter-form input {
+      flex: 1;
+      min-width: 0;
+      color: var(--vscode-input-foreground);
+      background-color: var(--vscode-input-background);
+      border: 1px solid var(--vscode-input-border, transparent);
+      padding: 3px 4px;
+    }
+    .add-bar {
+      display: flex;
+      gap: 4px;
+      align-items: flex-start;
+      margin-bottom: 6px;
+    }
+    .add-bar button {
+      margin: 0;
+    }
+    .entry-list {
+      list-style: none;
+      padding: 0;
+      margin: 0 0 10px 0;
+      font-size: 12px;
+    }
+    .entry-list > li {
+      display: flex;
+      gap: 4px;
+      align-items: flex-start;
+      padding: 3px 0;
+      border-bottom: 1px solid var(--vscode-sideBarSectionHeader-border, transparent);
+    }
+    .entry-list > li.disabled .entry-main {
+      opacity: 0.6;
+    }
+    .entry-main {
+      flex: 1;
+      min-width: 0;
+      word-break: break-all;
+    }
+    .entry-input {
+      font-family: var(--vscode-editor-font-family, monospace);
+    }
+    .entry-detail {
+      color: var(--vscode-descriptionForeground);
+    }
+    .entry-error {
+      color: var(--vscode-errorForeground);
+    }
+    .candidate-list {
+      list-style: none;
+      padding: 0;
+      margin: 2px 0 0 0;
+    }
+    .candidate-list li {
+      color: var(--vscode-textLink-foreground);
+      cursor: pointer;
+    }
+    .candidate-list li:hover {
+      text-decoration: underline;
+    }
+    .remove-entry {
+      color: var(--vscode-descriptionForeground);
+      cursor: pointer;
+    }
+    .empty-list {
+      color: var(--vscode-descriptionForeground);
+      font-style: italic;
+    }
+    .swatch {
+      display: inline-block;
+      width: 10px;
+      height: 10px;
+      margin-right: 2px;
+      border-radius: 2px;
+      vertical-align: middle;
+    }
+    .color-picker {
+      width: 18px;
+      height: 14px;
+      padding: 0;
+      margin: 0 4px 0 0;
+      border: none;
+      background: none;
+      vertical-align: middle;
+      cursor: pointer;
+    }
+    .reset-color {
+      margin-left: 4px;
+      color: var(--vscode-descriptionForeground);
+      cursor: pointer;
+    }
+    .set-bar {
+      display: flex;
+      gap: 4px;
+      align-items: center;
+      margin-bottom: 6px;
+    }
+    .set-bar select {
+      flex: 1;
+      min-width: 0;
+      padding: 4px;
+      background-color: var(--vscode-dropdown-background);
+      color: var(--vscode-dropdown-foreground);
+      border: 1px solid var(--vscode-dropdown-border, transparent);
+    }
+    .set-bar button {
+      margin: 0;
+    }
+    .mode-bar {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 10px;
+      font-size: 12px;
+      margin-bottom: 6px;
+    }
     h1 {
-      color: #cccccc;
+      color: var(--vscode-sideBarTitle-foreground, var(--vscode-foreground));
       font-size: 16px;
       margin-bottom: 15px;
     }
@@ -147,45 +410,136 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
 </head>
 <body>
   <h1>Commit Hash Highlighter</h1>
-  <div class="help-text">
-    Enter commit hashes below, one per line. 
-    Click "highligh on" to start highlighting code from these commits.
+  <div class="set-bar">
+    <select id="setSelect" title="Active highlight set"></select>
+    <button id="newSetButton" title="Create a new highlight set">New</button>
+    <button id="renameSetButton" title="Rename the active highlight set">Rename</button>
+    <button id="deleteSetButton" title="Delete the active highlight set">Delete</button>
   </div>
+  <div class="set-bar">
+    <button id="importSetsButton" title="Import sets from ${PROJECT_FILE_PATH}">Import</button>
+    <button id="exportSetsButton" title="Export sets to ${PROJECT_FILE_PATH}">Export</button>
+  </div>
+  <div class="mode-bar" title="Where the highlighted commits come from">
+    <label><input type="radio" name="commitSource" value="entries" checked> Entries</label>
+    <label><input type="radio" name="commitSource" value="branch"> My branch</label>
+    <label><input type="radio" name="commitSource" value="filter"> Filter</label>
+  </div>
+
+  <div id="entriesControls">
+    <div class="help-text">
+      Add commit hashes, branches, tags, ranges such as <code>main..HEAD</code> or git log queries
+      such as <code>--author=alice --since=2.weeks</code>. Pasted <code>git log --oneline</code>
+      output adds one entry per commit.
+    </div>
+
+    <div class="add-bar">
+      <textarea id="entryInput" rows="1" placeholder="Hash, ref, range or query"></textarea>
+      <button id="addEntriesButton" title="Add to the active set">Add</button>
+    </div>
+  </div>
+
+  <div id="filterControls" class="filter-form" hidden>
+    <input id="filterAuthor" type="text" placeholder="Author name or email">
+    <div class="filter-dates">
+      <input id="filterSince" type="text" placeholder="Since (2024-01-31 or 2w)">
+      <input id="filterUntil" type="text" placeholder="Until">
+    </div>
+    <button id="applyFilterButton" title="Highlight the lines whose author and date match">Apply filter</button>
+  </div>
+
+  <div id="branchControls" class="help-text" hidden>
+    Highlighting the commits between the merge-base with <code id="branchBase">upstream</code> and
+    <code>HEAD</code>, kept up to date as you commit or switch branches.
+    <button id="chooseBranchBaseButton" title="Choose the ref to compare against">Change base</button>
+  </div>
+
+  <ul id="entryList" class="entry-list"></ul>
   
-  <textarea id="commitHashesTextarea" placeholder="Enter commit hashes here, one per line"></textarea>
-  
+  <div class="mode-bar" title="Which lines of the commits to highlight">
+    <label><input type="radio" name="highlightMode" value="blame" checked> Surviving (blame)</label>
+    <label><input type="radio" name="highlightMode" value="diff"> Introduced (diff)</label>
+    <label><input type="radio" name="highlightMode" value="heatmap"> Age heatmap</label>
+  </div>
+
   <div>
     <button id="toggleHighlightButton">Highlighting: <span id="highlightStatus">OFF</span></button>
   </div>
 
   <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
-    const commitHashesTextarea = document.getElementById('commitHashesTextarea');
+    const entryInput = document.getElementById('entryInput');
     const toggleHighlightButton = document.getElementById('toggleHighlightButton');
     const highlightStatusSpan = document.getElementById('highlightStatus');
+    const entryList = document.getElementById('entryList');
+    const setSelect = document.getElementById('setSelect');
+
+    // The entries of the active set, and how each one resolved (keyed by entry text)
+    let entries = [];
+    let resolution = new Map();
+    let commitSource = 'entries';
     
     // Restore stored state from the webview if available
     const storedState = vscode.getState() || { commitHashes: [], isHighlightingEnabled: false };
-    if (storedState.commitHashes && storedState.commitHashes.length > 0) {
-      commitHashesTextarea.value = storedState.commitHashes.join('\\n');
-    }
+    entries = storedState.commitHashes || [];
     if (storedState.isHighlightingEnabled) {
       highlightStatusSpan.textContent = 'ON';
     }
+    renderEntries();
     
     // Request state restoration from the extension
     vscode.postMessage({ type: 'viewStateRestored' });
     
     toggleHighlightButton.addEventListener('click', toggleHighlight);
+    document.getElementById('addEntriesButton').addEventListener('click', addEntriesFromInput);
+    entryInput.addEventListener('keydown', event => {
+      if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault();
+        addEntriesFromInput();
+      }
+    });
+    // Multi-line pastes (e.g. git log --oneline output) are added right away
+    entryInput.addEventListener('paste', event => {
+      const text = event.clipboardData ? event.clipboardData.getData('text') : '';
+      if (text.includes('\\n')) {
+        event.preventDefault();
+        addEntries(parseCommitHashes(text));
+      }
+    });
+    setSelect.addEventListener('change', () => {
+      vscode.postMessage({ type: 'switchSet', name: setSelect.value });
+    });
+    document.getElementById('newSetButton').addEventListener('click', () => vscode.postMessage({ type: 'createSet' }));
+    document.getElementById('renameSetButton').addEventListener('click', () => vscode.postMessage({ type: 'renameSet' }));
+    document.getElementById('deleteSetButton').addEventListener('click', () => vscode.postMessage({ type: 'deleteSet' }));
+    document.getElementById('importSetsButton').addEventListener('click', () => vscode.postMessage({ type: 'importSets' }));
+    document.getElementById('exportSetsButton').addEventListener('click', () => vscode.postMessage({ type: 'exportSets' }));
+    const sourceInputs = document.querySelectorAll('input[name="commitSource"]');
+    sourceInputs.forEach(input => input.addEventListener('change', () => {
+      if (input.checked) {
+        vscode.postMessage({ type: 'setCommitSource', source: input.value });
+      }
+    }));
+    document.getElementById('chooseBranchBaseButton').addEventListener('click', () => vscode.postMessage({ type: 'chooseBranchBase' }));
+    const filterInputs = ['filterAuthor', 'filterSince', 'filterUntil'].map(id => document.getElementById(id));
+    document.getElementById('applyFilterButton').addEventListener('click', applyFilter);
+    filterInputs.forEach(input => input.addEventListener('keydown', event => {
+      if (event.key === 'Enter') {
+        applyFilter();
+      }
+    }));
+    const modeInputs = document.querySelectorAll('input[name="highlightMode"]');
+    modeInputs.forEach(input => input.addEventListener('change', () => {
+      if (input.checked) {
+        vscode.postMessage({ type: 'setHighlightMode', mode: input.value });
+      }
+    }));
     
     function toggleHighlight() {
-      const hashesText = commitHashesTextarea.value;
-      const hashes = parseCommitHashes(hashesText);
-      
-      // Send updated hashes
+      // Send the current entries first, so the extension highlights exactly this list
       vscode.postMessage({ 
         type: 'updateCommitHashes', 
-        value: hashes 
+        value: entries 
       });
       
       // Toggle highlighting
@@ -199,45 +553,271 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       
       // Save state in the webview
       vscode.setState({ 
-        commitHashes: hashes, 
+        commitHashes: entries, 
         isHighlightingEnabled: isEnabled 
       });
     }
+
+    function applyFilter() {
+      const [author, since, until] = filterInputs.map(input => input.value);
+      vscode.postMessage({ type: 'setLineFilter', author, since, until });
+    }
+
+    function addEntriesFromInput() {
+      addEntries(parseCommitHashes(entryInput.value));
+      entryInput.value = '';
+    }
+
+    function addEntries(added) {
+      const fresh = added.filter(entry => !entries.some(existing => sameEntry(existing, entry)));
+      if (fresh.length === 0) {
+        return;
+      }
+      setEntries(entries.concat(fresh));
+    }
+
+    function removeEntry(input) {
+      setEntries(entries.filter(entry => entry !== input));
+    }
+
+    // Update the list and send it through the same message as before
+    function setEntries(newEntries) {
+      entries = newEntries;
+      renderEntries();
+      vscode.postMessage({ type: 'updateCommitHashes', value: entries });
+      vscode.setState({ ...(vscode.getState() || {}), commitHashes: entries });
+    }
+
+    // Hashes are compared case-insensitively; anything else must match exactly
+    function sameEntry(a, b) {
+      return /^[0-9a-f]+$/i.test(a) ? a.toLowerCase() === b.toLowerCase() : a === b;
+    }
     
+    // One entry per line. Lines of git log --oneline (optionally with --graph) output are
+    // reduced to their hash; duplicates are dropped.
     function parseCommitHashes(text) {
       if (!text) {
         return [];
       }
-      const lines = text.split('\\n');
-      return lines
-        .map(line => line.trim())
-        .filter(line => line.length > 0);
+      const parsed = [];
+      for (const rawLine of text.split('\\n')) {
+        const line = rawLine.trim();
+        if (line.length === 0) {
+          continue;
+        }
+        const oneline = line.match(/^[*|\\\\/ ]*([0-9a-f]{7,64})(?:\\s|$)/i);
+        const entry = oneline ? oneline[1] : line;
+        if (!parsed.some(existing => sameEntry(existing, entry))) {
+          parsed.push(entry);
+        }
+      }
+      return parsed;
     }
 
     window.addEventListener('message', event => {
       const message = event.data;
       switch (message.type) {
         case 'updateCommitHashList':
-          updateCommitHashesTextarea(message.value);
+          updateEntryList(message.value);
+          break;
+        case 'updateResolution':
+          resolution = new Map(message.value.map(entry => [entry.input, entry]));
+          renderEntries();
+          break;
+        case 'updateSets':
+          renderSets(message.names, message.active);
+          break;
+        case 'updateHighlightMode':
+          modeInputs.forEach(input => { input.checked = input.value === message.mode; });
+          break;
+        case 'updateCommitSource':
+          commitSource = message.source;
+          sourceInputs.forEach(input => { input.checked = input.value === message.source; });
+          document.getElementById('entriesControls').hidden = commitSource !== 'entries';
+          document.getElementById('branchControls').hidden = commitSource !== 'branch';
+          document.getElementById('filterControls').hidden = commitSource !== 'filter';
+          document.getElementById('branchBase').textContent = message.base;
+          filterInputs[0].value = message.filter.author;
+          filterInputs[1].value = message.filter.since;
+          filterInputs[2].value = message.filter.until;
+          renderEntries();
           break;
         case 'updateHighlightStatus':
           highlightStatusSpan.textContent = message.value ? 'ON' : 'OFF';
           break;
         case 'restoreState':
-          if (message.commitHashes && message.commitHashes.length > 0) {
-            commitHashesTextarea.value = message.commitHashes.join('\\n');
-          }
+          entries = message.commitHashes || [];
+          renderEntries();
           highlightStatusSpan.textContent = message.isHighlightingEnabled ? 'ON' : 'OFF';
           vscode.setState({
-            commitHashes: message.commitHashes || [],
+            commitHashes: entries,
             isHighlightingEnabled: message.isHighlightingEnabled || false
           });
           break;
       }
     });
 
-    function updateCommitHashesTextarea(hashes) {
-      commitHashesTextarea.value = hashes.join('\\n');
+    function renderSets(names, active) {
+      setSelect.innerHTML = '';
+      for (const name of names) {
+        const option = document.createElement('option');
+        option.value = name;
+        option.textContent = name;
+        option.selected = name === active;
+        setSelect.appendChild(option);
+      }
+    }
+
+    // In "My branch" and filter mode the list shows what the extension resolved instead of the entries
+    function renderEntries() {
+      entryList.innerHTML = '';
+      const inputs = commitSource === 'entries' ? entries : Array.from(resolution.keys());
+      if (inputs.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'empty-list';
+        empty.textContent = commitSource === 'entries' ? 'No entries yet' : 'Resolving…';
+        entryList.appendChild(empty);
+        return;
+      }
+      for (const input of inputs) {
+        entryList.appendChild(renderEntry(input, resolution.get(input)));
+      }
+    }
+
+    function renderEntry(input, entry) {
+      const item = document.createElement('li');
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.title = 'Highlight this entry';
+      checkbox.checked = !entry || entry.enabled;
+      checkbox.disabled = !entry || Boolean(entry.error) || entry.kind === 'filter';
+      checkbox.addEventListener('change', () => {
+        vscode.postMessage({ type: 'setEntryEnabled', input, enabled: checkbox.checked });
+      });
+      item.appendChild(checkbox);
+      if (entry && !entry.enabled) {
+        item.className = 'disabled';
+      }
+      if (entry && !entry.error) {
+        appendLegend(item, entry);
+      }
+
+      const main = document.createElement('div');
+      main.className = 'entry-main';
+      const title = document.createElement('div');
+      const inputSpan = document.createElement('span');
+      inputSpan.className = 'entry-input';
+      inputSpan.textContent = input;
+      title.appendChild(inputSpan);
+      main.appendChild(title);
+
+      const detail = document.createElement('div');
+      if (!entry) {
+        detail.className = 'entry-detail';
+        detail.textContent = 'Resolving…';
+      } else if (entry.error) {
+        detail.className = 'entry-error';
+        detail.textContent = '✗ ' + entry.error;
+        if (entry.candidates) {
+          detail.appendChild(renderCandidates(input, entry.candidates));
+        }
+      } else {
+        detail.className = 'entry-detail';
+        detail.textContent = describeEntry(entry);
+      }
+      main.appendChild(detail);
+      if (entry && entry.note) {
+        const note = document.createElement('div');
+        note.className = 'entry-detail';
+        note.textContent = entry.note;
+        main.appendChild(note);
+      }
+      item.appendChild(main);
+
+      if (entry && entry.pinned) {
+        const reset = document.createElement('span');
+        reset.className = 'reset-color';
+        reset.title = 'Reset to the default color';
+        reset.textContent = '↺';
+        reset.addEventListener('click', () => {
+          vscode.postMessage({ type: 'unpinColor', input });
+        });
+        item.appendChild(reset);
+      }
+      if (commitSource === 'entries') {
+        const remove = document.createElement('span');
+        remove.className = 'remove-entry';
+        remove.title = 'Remove this entry';
+        remove.textContent = '×';
+        remove.addEventListener('click', () => removeEntry(input));
+        item.appendChild(remove);
+      }
+      return item;
+    }
+
+    // Commits an ambiguous short hash could stand for; clicking one replaces the entry with its hash
+    function renderCandidates(input, candidates) {
+      const list = document.createElement('ul');
+      list.className = 'candidate-list';
+      for (const candidate of candidates) {
+        const item = document.createElement('li');
+        item.title = 'Use ' + candidate.hash;
+        item.textContent = candidate.hash.substring(0, 12) + ' · ' + candidate.subject + ' · ' + candidate.date;
+        item.addEventListener('click', () => {
+          vscode.postMessage({ type: 'pickCandidate', input, hash: candidate.hash });
+        });
+        list.appendChild(item);
+      }
+      return list;
+    }
+
+    // A single commit shows its full hash, subject and author; anything else how it expanded
+    function describeEntry(entry) {
+      let text;
+      if (entry.hash) {
+        text = [entry.hash, entry.subject, entry.author].filter(part => part).join(' · ');
+      } else if (entry.kind === 'filter') {
+        text = '→ lines whose author and date match';
+      } else {
+        text = '→ ' + entry.count + (entry.count === 1 ? ' commit' : ' commits');
+        if (entry.commits.length > 0) {
+          text += ' (' + entry.commits.join(', ') + ')';
+        }
+      }
+      if (entry.repositories.length > 0) {
+        text += ' in ' + entry.repositories.join(', ');
+      }
+      return text;
+    }
+
+    // Show the entry's highlight colors; the picker pins one color to all of the entry's commits
+    function appendLegend(item, entry) {
+      if (entry.colors.length === 0) {
+        return;
+      }
+      const picker = document.createElement('input');
+      picker.type = 'color';
+      picker.className = 'color-picker';
+      picker.value = entry.colors[0];
+      picker.title = 'Pick a custom color for this entry';
+      picker.addEventListener('change', () => {
+        vscode.postMessage({ type: 'pinColor', input: entry.input, color: picker.value });
+      });
+      item.appendChild(picker);
+      if (entry.colors.length === 1) {
+        return;
+      }
+      for (const color of entry.colors) {
+        const swatch = document.createElement('span');
+        swatch.className = 'swatch';
+        swatch.style.backgroundColor = color;
+        item.appendChild(swatch);
+      }
+    }
+
+    function updateEntryList(hashes) {
+      entries = hashes;
+      renderEntries();
       const currentState = vscode.getState() || {};
       vscode.setState({
         ...currentState,
@@ -249,6 +829,621 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
 </html>`;
   }
 
+  /**
+   * Turn highlighting on or off (flipping it when no state is given), as the sidebar button does.
+   */
+  public async setHighlightingEnabled(enabled: boolean = !this._isHighlightingEnabled) {
+    this._isHighlightingEnabled = enabled;
+    console.log(`Highlighting toggled to: ${this._isHighlightingEnabled}`);
+    vscode.commands.executeCommand('setContext', 'commit-hash-highlighter.highlightingEnabled', this._isHighlightingEnabled);
+    this._highlightSets.setHighlightingEnabled(this._isHighlightingEnabled);
+    this._onDidChangeCommits.fire();
+    if (this._isHighlightingEnabled) {
+      // Wait for any pending expansion of the entries sent just before the toggle
+      await this._resolution;
+      const commits = this.getHighlightCommits();
+      if (this.hasLinesToHighlight(commits)) {
+        console.log("Highlighting enabled - updating files for commits");
+        this.updateExplorerFiles(commits);
+      }
+      this.triggerHighlighting();
+    } else {
+      this._gitBlameService.clearAllHighlights();
+    }
+    this.saveState();
+    vscode.window.showInformationMessage(
+      `Commit hash highlighting: ${this._isHighlightingEnabled ? 'ON' : 'OFF'}`
+    );
+  }
+
+  /**
+   * Append entries (hashes, refs, ...) to the active set, skipping ones it already contains.
+   * Highlighting is switched on so the added commits show up right away.
+   */
+  public async addEntries(entries: string[]) {
+    await this._resolution;
+    // Added commits only show up when highlighting follows the entries
+    if (this._commitSource !== 'entries') {
+      await this._useCommitSource('entries');
+    }
+    const added = entries.filter((entry, index) =>
+      !this._commitHashes.includes(entry) && entries.indexOf(entry) === index && !this._isResolvedHash(entry));
+    if (added.length === 0) {
+      vscode.window.showInformationMessage('The selected commits are already highlighted');
+      return;
+    }
+    this._commitHashes = [...this._commitHashes, ...added];
+    await this._highlightSets.updateEntries(this._commitHashes);
+    console.log(`Added entries: ${added.join(', ')}`);
+    this.updateSidebarContent();
+    this.saveState();
+    await this.refreshHighlights();
+    if (!this._isHighlightingEnabled) {
+      await this.setHighlightingEnabled(true);
+    }
+    vscode.window.showInformationMessage(
+      added.length === 1 ? `Added ${added[0].substring(0, 8)} to the highlights` : `Added ${added.length} commits to the highlights`
+    );
+  }
+
+  /**
+   * Blame the line under the cursor and add the commit that last changed it to the active set.
+   */
+  public async addCommitUnderCursor() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.uri.scheme !== 'file') {
+      vscode.window.showInformationMessage('Place the cursor in a file to add its commit');
+      return;
+    }
+    const line = editor.selection.active.line;
+    const blameInfos = await this._gitBlameService.getBlameInfoForPath(editor.document.uri.fsPath);
+    const blameInfo = blameInfos.find(info => info.lines.includes(line));
+    if (!blameInfo) {
+      vscode.window.showInformationMessage('No commit found for the current line');
+      return;
+    }
+    // Uncommitted lines are blamed on the all-zero hash
+    if (/^0+$/.test(blameInfo.hash)) {
+      vscode.window.showInformationMessage('The current line has not been committed yet');
+      return;
+    }
+    await this.addEntries([blameInfo.hash]);
+  }
+
+  /**
+   * Remove every entry from the active set, after confirming; the entries are persisted, so
+   * this cannot be undone. Use `setHighlightingEnabled(false)` to just clear the decorations.
+   */
+  public async clearEntries() {
+    await this._resolution;
+    const name = this._highlightSets.activeSet.name;
+    if (this._commitHashes.length === 0) {
+      vscode.window.showInformationMessage(`Highlight set '${name}' has no entries`);
+      return;
+    }
+    const count = this._commitHashes.length;
+    const answer = await vscode.window.showWarningMessage(
+      `Remove all ${count} ${count === 1 ? 'entry' : 'entries'} from highlight set '${name}'?`,
+      { modal: true, detail: 'The entries are deleted from the saved set and cannot be restored.' },
+      'Remove All'
+    );
+    if (answer !== 'Remove All') {
+      return;
+    }
+    this._commitHashes = [];
+    this._removedCommits.clear();
+    this._disabledCommits.clear();
+    await this._highlightSets.updateEntries([]);
+    console.log(`Cleared highlight set '${this._highlightSets.activeSet.name}'`);
+    this.updateSidebarContent();
+    this.saveState();
+    await this.refreshHighlights();
+  }
+
+  /**
+   * Remove a commit from the active set. An entry standing for just this commit is deleted;
+   * a commit that came from a range or query is excluded from that entry instead.
+   */
+  public async removeCommit(hash: string) {
+    await this._resolution;
+    const remaining = this._commitHashes.filter(input => {
+      const entry = this._resolvedEntries.find(resolved => resolved.input === input);
+      return !(entry && entry.commits.length === 1 && entry.commits[0] === hash);
+    });
+    if (remaining.length === this._commitHashes.length) {
+      this._removedCommits.add(hash);
+    }
+    this._commitHashes = remaining;
+    await this._highlightSets.updateEntries(remaining);
+    console.log(`Removed commit ${hash} from the active set`);
+    this.updateSidebarContent();
+    this.saveState();
+    await this.refreshHighlights();
+  }
+
+  /**
+   * Replace an ambiguous short hash with the full hash of the commit the user picked.
+   */
+  public async pickCandidate(input: string, hash: string) {
+    await this._resolution;
+    if (!this._commitHashes.includes(input)) {
+      return;
+    }
+    // Drop the picked hash if it was entered separately as well
+    this._commitHashes = this._commitHashes.filter(entry => entry !== hash);
+    this._commitHashes[this._commitHashes.indexOf(input)] = hash;
+    await this._highlightSets.updateEntries(this._commitHashes);
+    console.log(`Resolved ambiguous entry ${input} to ${hash}`);
+    this.updateSidebarContent();
+    this.saveState();
+    await this.refreshHighlights();
+  }
+
+  // Whether a hash (full or abbreviated) names a commit some single-commit entry already resolved to
+  private _isResolvedHash(text: string): boolean {
+    if (!/^[0-9a-f]{4,64}$/i.test(text)) {
+      return false;
+    }
+    const prefix = text.toLowerCase();
+    return this._resolvedEntries.some(entry =>
+      entry.kind === 'commit' && entry.commits.length === 1 && entry.commits[0].startsWith(prefix));
+  }
+
+  public get highlightMode(): HighlightMode {
+    return this._gitBlameService.highlightMode;
+  }
+
+  /**
+   * Switch between highlighting surviving lines (blame) and the lines commits introduced (diff).
+   */
+  public async setHighlightMode(mode: HighlightMode) {
+    if (mode === this._gitBlameService.highlightMode) {
+      return;
+    }
+    this._gitBlameService.highlightMode = mode;
+    await this._highlightSets.setHighlightMode(mode);
+    console.log(`Highlight mode set to ${mode}`);
+    this.postHighlightMode();
+    this._onDidChangeCommits.fire();
+    if (this._isHighlightingEnabled) {
+      this.triggerHighlighting();
+    }
+  }
+
+  private postHighlightMode() {
+    if (this._view) {
+      this._view.webview.postMessage({ type: 'updateHighlightMode', mode: this._gitBlameService.highlightMode });
+    }
+  }
+
+  public get commitSource(): CommitSource {
+    return this._commitSource;
+  }
+
+  /**
+   * Switch between highlighting the entries of the active set and the commits of the checked-out
+   * branch since its merge-base with the configured base ("My branch" mode).
+   */
+  public async setCommitSource(source: CommitSource) {
+    if (source === this._commitSource) {
+      return;
+    }
+    await this._useCommitSource(source);
+    await this.refreshHighlights();
+  }
+
+  /**
+   * Toggle "My branch" mode, switching highlighting on when entering it.
+   */
+  public async toggleMyBranch() {
+    await this.setCommitSource(this._commitSource === 'branch' ? 'entries' : 'branch');
+    if (this._commitSource === 'branch' && !this._isHighlightingEnabled) {
+      await this.setHighlightingEnabled(true);
+    }
+  }
+
+  /**
+   * Let the user pick the base of "My branch" mode: the upstream or one of the branches.
+   */
+  public async chooseBranchBase() {
+    const repositories = await this._repositories.getWorkspaceRepositories();
+    const branches = repositories.length > 0 ? await this._commitResolver.listBranches(repositories[0]) : [];
+    const current = getBranchBase();
+    const items: vscode.QuickPickItem[] = [
+      { label: 'upstream', description: 'The upstream of the checked-out branch' },
+      ...branches.map(branch => ({ label: branch }))
+    ].map(item => item.label === current ? { ...item, detail: 'Current base' } : item);
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: `Compare the current branch against (now ${current})` });
+    if (!picked) {
+      return;
+    }
+    await vscode.workspace.getConfiguration(`${CONFIGURATION_SECTION}.myBranch`)
+      .update('base', picked.label, vscode.ConfigurationTarget.Workspace);
+    console.log(`My branch base set to ${picked.label}`);
+  }
+
+  /**
+   * Highlight the lines whose commits match an author and/or author date range, replacing the
+   * active set's entries as the source of commits until another source is chosen.
+   */
+  public async setLineFilter(filter: LineFilter) {
+    await this._highlightSets.setLineFilter(filter);
+    console.log(`Line filter set to ${JSON.stringify(filter)}`);
+    if (this._commitSource !== 'filter') {
+      await this._useCommitSource('filter');
+    } else {
+      this.postCommitSource();
+    }
+    await this.refreshHighlights();
+  }
+
+  // Persist and show the commit source, without resolving again
+  private async _useCommitSource(source: CommitSource) {
+    this._commitSource = source;
+    await this._highlightSets.setCommitSource(source);
+    console.log(`Commit source set to ${source}`);
+    this.postCommitSource();
+  }
+
+  private postCommitSource() {
+    if (this._view) {
+      this._view.webview.postMessage({
+        type: 'updateCommitSource',
+        source: this._commitSource,
+        base: getBranchBase(),
+        filter: this._highlightSets.lineFilter
+      });
+    }
+  }
+
+  // Whether there is anything to resolve: entries, the checked-out branch or a filter
+  private hasCommitSource(): boolean {
+    return this._commitSource !== 'entries' || this._commitHashes.length > 0;
+  }
+
+  /**
+   * Names of the saved highlight sets and the name of the active one.
+   */
+  public getHighlightSets(): { names: string[]; active: string } {
+    return { names: this._highlightSets.setNames, active: this._highlightSets.activeSet.name };
+  }
+
+  /**
+   * Make another named set the active one and highlight its entries.
+   */
+  public async switchHighlightSet(name: string) {
+    try {
+      await this._highlightSets.switchSet(name);
+      await this.loadActiveSet();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to switch highlight set: ${error}`);
+    }
+  }
+
+  /**
+   * Let the user pick the named set to make active.
+   */
+  public async pickHighlightSet() {
+    const { names, active } = this.getHighlightSets();
+    const choice = await vscode.window.showQuickPick(
+      names.map(name => ({
+        label: name,
+        description: name === active ? 'active' : undefined,
+        picked: name === active
+      })),
+      { placeHolder: 'Switch the active highlight set' }
+    );
+    if (choice && choice.label !== active) {
+      await this.switchHighlightSet(choice.label);
+    }
+  }
+
+  public async createHighlightSet() {
+    const name = await vscode.window.showInputBox({
+      prompt: 'Name of the new highlight set',
+      placeHolder: 'e.g. Release 4.2 fixes',
+      validateInput: value => this._validateSetName(value)
+    });
+    if (!name) {
+      return;
+    }
+    try {
+      await this._highlightSets.createSet(name.trim());
+      await this.loadActiveSet();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to create highlight set: ${error}`);
+    }
+  }
+
+  public async renameHighlightSet() {
+    const oldName = this._highlightSets.activeSet.name;
+    const newName = await vscode.window.showInputBox({
+      prompt: `Rename highlight set '${oldName}'`,
+      value: oldName,
+      validateInput: value => value.trim() === oldName ? undefined : this._validateSetName(value)
+    });
+    if (!newName || newName.trim() === oldName) {
+      return;
+    }
+    try {
+      await this._highlightSets.renameSet(oldName, newName.trim());
+      this.postHighlightSets();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to rename highlight set: ${error}`);
+    }
+  }
+
+  public async deleteHighlightSet() {
+    const name = this._highlightSets.activeSet.name;
+    const answer = await vscode.window.showWarningMessage(
+      `Delete highlight set '${name}'?`,
+      { modal: true },
+      'Delete'
+    );
+    if (answer !== 'Delete') {
+      return;
+    }
+    try {
+      await this._highlightSets.deleteSet(name);
+      await this.loadActiveSet();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to delete highlight set: ${error}`);
+    }
+  }
+
+  /**
+   * Import the sets from the project file, so a review set committed to the repo can be shared.
+   */
+  public async importHighlightSets() {
+    const folder = await this._pickProjectFolder();
+    if (!folder) {
+      return;
+    }
+    try {
+      const count = await this._highlightSets.importFromProjectFile(folder.uri);
+      await this.loadActiveSet();
+      vscode.window.showInformationMessage(`Imported ${count} highlight set(s) from ${PROJECT_FILE_PATH}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to import ${PROJECT_FILE_PATH}: ${error}`);
+    }
+  }
+
+  public async exportHighlightSets() {
+    const folder = await this._pickProjectFolder();
+    if (!folder) {
+      return;
+    }
+    try {
+      const fileUri = await this._highlightSets.exportToProjectFile(folder.uri);
+      vscode.window.showInformationMessage(`Exported highlight sets to ${vscode.workspace.asRelativePath(fileUri)}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to export ${PROJECT_FILE_PATH}: ${error}`);
+    }
+  }
+
+  private _validateSetName(value: string): string | undefined {
+    const name = value.trim();
+    if (name.length === 0) {
+      return 'The name cannot be empty';
+    }
+    if (this._highlightSets.setNames.includes(name)) {
+      return `A highlight set named '${name}' already exists`;
+    }
+    return undefined;
+  }
+
+  private async _pickProjectFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length === 0) {
+      vscode.window.showErrorMessage('Open a folder to import or export highlight sets');
+      return undefined;
+    }
+    if (folders.length === 1) {
+      return folders[0];
+    }
+    return vscode.window.showWorkspaceFolderPick({ placeHolder: `Folder containing ${PROJECT_FILE_PATH}` });
+  }
+
+  // Show and highlight the entries of the (newly) active set
+  private async loadActiveSet() {
+    this._commitHashes = [...this._highlightSets.activeSet.entries];
+    this._removedCommits.clear();
+    this._disabledCommits.clear();
+    console.log(`Loaded highlight set '${this._highlightSets.activeSet.name}'`);
+    this.updateSidebarContent();
+    this.saveState();
+    this.postHighlightSets();
+    await this.refreshHighlights();
+  }
+
+  private postHighlightSets() {
+    if (this._view) {
+      this._view.webview.postMessage({ type: 'updateSets', ...this.getHighlightSets() });
+    }
+  }
+
+  /**
+   * The blame service shared by the sidebar and the other views.
+   */
+  public get gitBlameService(): GitBlameService {
+    return this._gitBlameService;
+  }
+
+  /**
+   * The commits in the active set, in entry order, with their on/off state.
+   */
+  public getActiveCommits(): { hash: string; enabled: boolean }[] {
+    return this._resolvedCommits.map(hash => ({ hash, enabled: !this._disabledCommits.has(hash) }));
+  }
+
+  /**
+   * Turn highlighting for a single commit on or off without removing it from the active set.
+   */
+  public async setCommitEnabled(hash: string, enabled: boolean) {
+    await this.setCommitsEnabled([hash], enabled);
+  }
+
+  /**
+   * Turn highlighting for several commits (e.g. all commits of one entry) on or off at once.
+   */
+  public async setCommitsEnabled(hashes: string[], enabled: boolean) {
+    for (const hash of hashes) {
+      if (enabled) {
+        this._disabledCommits.delete(hash);
+      } else {
+        this._disabledCommits.add(hash);
+      }
+    }
+    console.log(`Commits ${hashes.join(', ')} highlighting ${enabled ? 'enabled' : 'disabled'}`);
+    this._onDidChangeCommits.fire();
+    this.postResolution();
+    await this.applyHighlightCommits();
+  }
+
+  /**
+   * Roots of the repositories a commit was found in.
+   */
+  public getCommitRepositories(hash: string): string[] {
+    return this._commitRepositories.get(hash) ?? [];
+  }
+
+  public get isHighlightingEnabled(): boolean {
+    return this._isHighlightingEnabled;
+  }
+
+  /**
+   * Commits that are currently highlighted (active and not switched off).
+   */
+  public getHighlightCommits(): string[] {
+    return this._resolvedCommits.filter(commit => !this._disabledCommits.has(commit));
+  }
+
+  // Commits, the heatmap or a line filter; without any of them there is nothing to draw
+  private hasLinesToHighlight(commits: string[]): boolean {
+    return commits.length > 0 || this.highlightMode === 'heatmap' || this._gitBlameService.lineFilter !== undefined;
+  }
+
+  // Mark the files the commits changed in the Explorer and count their lines. A line filter lists no
+  // commits, so its most recent matching commits stand in for them
+  private updateExplorerFiles(commits: string[]) {
+    if (this._gitBlameService.lineFilter) {
+      this._gitBlameService.updateFilesForCommits(Array.from(this._filterCommitRepositories.keys()), this._filterCommitRepositories);
+    } else {
+      this._gitBlameService.updateFilesForCommits(commits, this._commitRepositories);
+    }
+  }
+
+  // Re-resolve the entries and re-apply highlighting with the resulting commit set
+  private async refreshHighlights() {
+    await this.resolveCommitHashes();
+    await this.applyHighlightCommits();
+  }
+
+  // Re-apply highlighting for the current commit set
+  private async applyHighlightCommits() {
+    if (!this._isHighlightingEnabled) {
+      return;
+    }
+    const commits = this.getHighlightCommits();
+    if (this.hasLinesToHighlight(commits)) {
+      console.log("Highlighting enabled - updating files for commits");
+      // Fetch and mark files changed by these commits.
+      this.updateExplorerFiles(commits);
+      this.triggerHighlighting();
+    } else {
+      this._gitBlameService.clearAllHighlights();
+    }
+  }
+
+  /**
+   * Expand the entered hashes, refs, ranges and log queries into the commit set
+   * used for highlighting, and report how each entry expanded to the webview.
+   */
+  private resolveCommitHashes(): Promise<void> {
+    const entries = this._commitHashes;
+    this._resolution = this._resolution.then(async () => {
+      try {
+        const repositories = await this._repositories.getWorkspaceRepositories();
+        if (this._commitSource !== 'entries') {
+          // Watch every repository's refs, so new commits and branch switches update the set
+          await Promise.all(repositories.map(repository => this._heads.getHead(repository)));
+        }
+        this._gitBlameService.lineFilter = undefined;
+        this._filterCommitRepositories = new Map();
+        if (this._commitSource === 'branch') {
+          this._resolvedEntries = [await this._commitResolver.resolveBranch(getBranchBase(), repositories)];
+        } else if (this._commitSource === 'filter') {
+          const { entry, parsed, matchingCommits } = await this._commitResolver.resolveFilter(this._highlightSets.lineFilter, repositories);
+          this._gitBlameService.lineFilter = parsed;
+          this._filterCommitRepositories = matchingCommits;
+          this._resolvedEntries = [entry];
+        } else {
+          this._resolvedEntries = await this._commitResolver.resolveEntries(entries, repositories, {
+            matchPatchIds: isPatchIdMatchingEnabled()
+          });
+        }
+        this._resolvedCommits = CommitResolver.collectCommits(this._resolvedEntries)
+          .filter(commit => !this._removedCommits.has(commit));
+        this._commitRepositories = CommitResolver.collectCommitRepositories(this._resolvedEntries);
+        this._colors.setActiveCommits(this._resolvedCommits);
+        console.log(`Resolved ${entries.length} entries to ${this._resolvedCommits.length} commits`);
+        this.postResolution();
+        this._onDidChangeCommits.fire();
+      } catch (error) {
+        // Keep the chain resolved, so later resolutions and everything awaiting them still run
+        console.error('Error resolving the highlighted commits:', error);
+      }
+    });
+    return this._resolution;
+  }
+
+  private async postResolution() {
+    if (!this._view) {
+      return;
+    }
+    const entries = this._resolvedEntries;
+    const resolution = await Promise.all(entries.map(async entry => {
+      // Single commits (and the first of their patch-id equivalents) show their full hash, subject and author
+      const details = entry.kind === 'commit' && (entry.commits.length === 1 || entry.patchEquivalents)
+        ? await this._gitBlameService.getCommitDetails(entry.commits[0], this._getEntryRepositories(entry)[0])
+        : undefined;
+      return {
+        input: entry.input,
+        kind: entry.kind,
+        count: entry.commits.length,
+        hash: details?.hash,
+        subject: details?.subject,
+        author: details?.author,
+        enabled: entry.kind === 'filter' || entry.commits.some(commit => !this._disabledCommits.has(commit)),
+        // Change-Ids list the commits they matched so cherry-picks and patchsets can be told apart
+        commits: entry.kind === 'changeId' ? entry.commits.map(commit => commit.substring(0, 8)) : [],
+        error: entry.error,
+        repositories: this._getEntryRepositoryNames(entry),
+        colors: Array.from(new Set(entry.commits.map(commit => this._colors.getColor(commit))))
+          .slice(0, MAX_LEGEND_SWATCHES),
+        pinned: entry.commits.length > 0 && entry.commits.every(commit => this._colors.isPinned(commit)),
+        candidates: entry.candidates,
+        note: entry.note ?? describePatchEquivalents(entry.patchEquivalents)
+      };
+    }));
+    // A newer resolution may have been posted while the details were loading
+    if (this._view && entries === this._resolvedEntries) {
+      this._view.webview.postMessage({ type: 'updateResolution', value: resolution });
+    }
+  }
+
+  // Roots of the repositories an entry's commits were found in
+  private _getEntryRepositories(entry: ResolvedEntry): string[] {
+    const roots = new Set<string>();
+    entry.commitRepositories.forEach(repositories => repositories.forEach(root => roots.add(root)));
+    return Array.from(roots);
+  }
+
+  // Names of the repositories an entry's commits were found in
+  private _getEntryRepositoryNames(entry: ResolvedEntry): string[] {
+    return this._getEntryRepositories(entry).map(root => this._repositories.getDisplayName(root));
+  }
+
   public updateSidebarContent() {
     if (this._view) {
       this._view.webview.postMessage({
@@ -276,6 +1471,10 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         commitHashes: this._commitHashes,
         isHighlightingEnabled: this._isHighlightingEnabled
       });
+      this.postResolution();
+      this.postHighlightSets();
+      this.postHighlightMode();
+      this.postCommitSource();
       console.log("Restored state to webview");
     }
   }
@@ -290,11 +1489,12 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     if (activeEditor) {
       console.log("Triggering highlighting in active editor");
       this._gitBlameService.clearHighlighting(activeEditor);
-      if (this._isHighlightingEnabled && this._commitHashes.length > 0) {
-        console.log(`Applying highlighting for ${this._commitHashes.length} hashes`);
-        this._gitBlameService.applyHighlighting(activeEditor, this._commitHashes);
+      const commits = this.getHighlightCommits();
+      if (this._isHighlightingEnabled && this.hasLinesToHighlight(commits)) {
+        console.log(`Applying highlighting for ${commits.length} commits`);
+        this._gitBlameService.applyHighlighting(activeEditor, commits);
       } else {
-        console.log(`Highlighting not applied: enabled=${this._isHighlightingEnabled}, hashes=${this._commitHashes.length}`);
+        console.log(`Highlighting not applied: enabled=${this._isHighlightingEnabled}, commits=${commits.length}`);
       }
     } else {
       console.log("No active editor found for highlighting");
@@ -302,7 +1502,8 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
   }
   
   private highlightAllVisibleEditors() {
-    if (!this._isHighlightingEnabled || this._commitHashes.length === 0) {
+    const commits = this.getHighlightCommits();
+    if (!this._isHighlightingEnabled || !this.hasLinesToHighlight(commits)) {
       return;
     }
     
@@ -311,13 +1512,31 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         return;
       }
       this._gitBlameService.clearHighlighting(editor);
-      this._gitBlameService.applyHighlighting(editor, this._commitHashes);
+      this._gitBlameService.applyHighlighting(editor, commits);
     });
   }
 
   public dispose() {
+    if (this._documentChangeTimer) {
+      clearTimeout(this._documentChangeTimer);
+    }
     this._gitBlameService.dispose();
+    this._repositories.dispose();
+    this._heads.dispose();
+    this._onDidChangeCommits.dispose();
+  }
+}
+
+// "a1b2c3d → rebased as 9f8e7d6", or the cherry-picks an entered commit also matches
+function describePatchEquivalents(patchEquivalents: PatchEquivalents | undefined): string | undefined {
+  if (!patchEquivalents) {
+    return undefined;
   }
+  const original = patchEquivalents.original.substring(0, 7);
+  const equivalents = patchEquivalents.equivalents.map(commit => commit.substring(0, 7)).join(', ');
+  return patchEquivalents.rebased
+    ? `${original} → rebased as ${equivalents}`
+    : `${original} also matches ${equivalents} (same patch)`;
 }
 
 function getNonce() {
@@ -0,0 +1,256 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SidebarProvider } from './SidebarProvider';
+import { groupContiguousLines } from './lineRanges';
+
+// Longest snippet included for a single surviving range
+const MAX_SNIPPET_LINES = 10;
+
+const SARIF_RULE_ID = 'surviving-commit-lines';
+
+// A block of surviving lines (one-based, inclusive) with the code it contains
+export interface SurvivingRange {
+  startLine: number;
+  endLine: number;
+  snippet: string;
+}
+
+export interface FileSurvival {
+  // Path relative to the repository root
+  path: string;
+  addedLines: number;
+  survivingLines: number;
+  ranges: SurvivingRange[];
+}
+
+export interface CommitSurvival {
+  hash: string;
+  subject: string;
+  author: string;
+  repository: string;
+  addedLines: number;
+  survivingLines: number;
+  files: FileSurvival[];
+}
+
+export interface SurvivalReport {
+  generatedAt: string;
+  commits: CommitSurvival[];
+}
+
+type ReportFormat = 'markdown' | 'json' | 'sarif';
+
+const FORMAT_EXTENSIONS: Record<ReportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  sarif: 'sarif'
+};
+
+/**
+ * Builds and exports a report of which lines from the highlighted commits still exist in the tree.
+ */
+export class SurvivalReporter {
+  constructor(private readonly _sidebarProvider: SidebarProvider) {}
+
+  /**
+   * Ask for a format and location, build the report for the highlighted commits and open it.
+   */
+  public async exportReport() {
+    const commits = this._sidebarProvider.getHighlightCommits();
+    if (commits.length === 0) {
+      vscode.window.showInformationMessage('No commits are being highlighted');
+      return;
+    }
+    const formatChoice = await vscode.window.showQuickPick(
+      [
+        { label: 'Markdown', description: 'For reviews', format: 'markdown' as ReportFormat },
+        { label: 'JSON', description: 'For scripting', format: 'json' as ReportFormat },
+        { label: 'SARIF', description: 'For code-scanning viewers', format: 'sarif' as ReportFormat }
+      ],
+      { placeHolder: 'Commit survival report format' }
+    );
+    if (!formatChoice) {
+      return;
+    }
+    const format = formatChoice.format;
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = `commit-survival-report.${FORMAT_EXTENSIONS[format]}`;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+      filters: { [formatChoice.label]: [FORMAT_EXTENSIONS[format]] }
+    });
+    if (!target) {
+      return;
+    }
+
+    const report = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Building commit survival report', cancellable: true },
+      (progress, token) => this.buildReport(commits, progress, token)
+    );
+    if (!report) {
+      return;
+    }
+
+    let content: string;
+    switch (format) {
+      case 'markdown':
+        content = formatMarkdownReport(report);
+        break;
+      case 'json':
+        content = JSON.stringify(report, null, 2) + '\n';
+        break;
+      case 'sarif':
+        content = JSON.stringify(formatSarifReport(report), null, 2) + '\n';
+        break;
+    }
+    await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+    await vscode.window.showTextDocument(target);
+  }
+
+  /**
+   * Blame every file each commit touched and collect the lines from it that survive.
+   * Returns undefined when cancelled.
+   */
+  public async buildReport(
+    commits: string[],
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    token?: vscode.CancellationToken
+  ): Promise<SurvivalReport | undefined> {
+    const service = this._sidebarProvider.gitBlameService;
+    const result: CommitSurvival[] = [];
+
+    for (const hash of commits) {
+      for (const repository of this._sidebarProvider.getCommitRepositories(hash)) {
+        if (token?.isCancellationRequested) {
+          return undefined;
+        }
+        progress?.report({ message: hash.substring(0, 8), increment: 100 / commits.length });
+
+        const details = await service.getCommitDetails(hash, repository);
+        const addedLineCounts = await service.getAddedLineCounts(hash, repository);
+        const files: FileSurvival[] = [];
+        for (const file of await service.getFilesForCommit(hash, repository)) {
+          const filePath = path.join(repository, file);
+          const addedLines = addedLineCounts.get(file) ?? 0;
+          if (!fs.existsSync(filePath)) {
+            files.push({ path: file, addedLines, survivingLines: 0, ranges: [] });
+            continue;
+          }
+          const blameInfo = (await service.getBlameInfoForPath(filePath)).find(info => info.hash === hash);
+          const lines = blameInfo?.lines ?? [];
+          const fileLines = lines.length > 0 ? this._readLines(filePath) : [];
+          const ranges = groupContiguousLines(lines).map(range => {
+            const snippetEnd = Math.min(range.end, range.start + MAX_SNIPPET_LINES - 1);
+            let snippet = fileLines.slice(range.start, snippetEnd + 1).join('\n');
+            if (snippetEnd < range.end) {
+              snippet += `\n… (${range.end - snippetEnd} more lines)`;
+            }
+            return { startLine: range.start + 1, endLine: range.end + 1, snippet };
+          });
+          files.push({ path: file, addedLines, survivingLines: lines.length, ranges });
+        }
+
+        result.push({
+          hash,
+          subject: details?.subject ?? '',
+          author: details?.author ?? '',
+          repository,
+          addedLines: files.reduce((sum, file) => sum + file.addedLines, 0),
+          survivingLines: files.reduce((sum, file) => sum + file.survivingLines, 0),
+          files
+        });
+      }
+    }
+
+    return { generatedAt: new Date().toISOString(), commits: result };
+  }
+
+  // Current lines of a file, taken from its open document so unsaved edits match the blame
+  private _readLines(filePath: string): string[] {
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.scheme === 'file' && doc.uri.fsPath === filePath);
+    const text = document ? document.getText() : fs.readFileSync(filePath, 'utf8');
+    return text.split(/\r?\n/);
+  }
+}
+
+/**
+ * Render a survival report as Markdown for code reviews.
+ */
+export function formatMarkdownReport(report: SurvivalReport): string {
+  const lines: string[] = ['# Commit Survival Report', '', `Generated ${report.generatedAt}`, ''];
+  lines.push('| Commit | Subject | Author | Surviving / Added lines |');
+  lines.push('|--------|---------|--------|-------------------------|');
+  for (const commit of report.commits) {
+    lines.push(`| \`${commit.hash.substring(0, 8)}\` | ${escapeTableCell(commit.subject)} | ${escapeTableCell(commit.author)} | ${commit.survivingLines} / ${commit.addedLines} |`);
+  }
+
+  for (const commit of report.commits) {
+    lines.push('', `## \`${commit.hash.substring(0, 8)}\` ${commit.subject}`, '');
+    lines.push(`Repository: \`${commit.repository}\`  `);
+    lines.push(`${commit.survivingLines} of ${commit.addedLines} added lines survive.`);
+    for (const file of commit.files) {
+      lines.push('', `### ${file.path} (${file.survivingLines} / ${file.addedLines})`);
+      if (file.ranges.length === 0) {
+        lines.push('', '_No surviving lines._');
+      }
+      for (const range of file.ranges) {
+        const label = range.startLine === range.endLine ? `Line ${range.startLine}` : `Lines ${range.startLine}–${range.endLine}`;
+        const fence = codeFenceFor(range.snippet);
+        lines.push('', `${label}:`, '', fence, range.snippet, fence);
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a survival report as SARIF 2.1.0, one run per repository, so it can be loaded
+ * into code-scanning viewers.
+ */
+export function formatSarifReport(report: SurvivalReport): object {
+  const repositories = Array.from(new Set(report.commits.map(commit => commit.repository)));
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: repositories.map(repository => ({
+      tool: {
+        driver: {
+          name: 'Commit Hash Highlighter',
+          informationUri: 'https://github.com/x-blom/Eddie-Sun',
+          rules: [{
+            id: SARIF_RULE_ID,
+            shortDescription: { text: 'Lines from a tracked commit that still exist' }
+          }]
+        }
+      },
+      originalUriBaseIds: {
+        SRCROOT: { uri: vscode.Uri.file(repository).toString() + '/' }
+      },
+      results: report.commits
+        .filter(commit => commit.repository === repository)
+        .flatMap(commit => commit.files.flatMap(file => file.ranges.map(range => ({
+          ruleId: SARIF_RULE_ID,
+          level: 'note',
+          message: { text: `Lines from ${commit.hash.substring(0, 8)} (${commit.subject}) still exist` },
+          locations: [{
+            physicalLocation: {
+              artifactLocation: { uri: file.path.split(path.sep).join('/'), uriBaseId: 'SRCROOT' },
+              region: { startLine: range.startLine, endLine: range.endLine, snippet: { text: range.snippet } }
+            }
+          }],
+          properties: { commit: commit.hash, author: commit.author }
+        }))))
+    }))
+  };
+}
+
+// A backtick fence longer than any backtick run in the snippet, so code cannot close it early
+function codeFenceFor(snippet: string): string {
+  const longestRun = Math.max(0, ...(snippet.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(Math.max(3, longestRun + 1));
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Section of all extension settings in settings.json
+export const CONFIGURATION_SECTION = 'commitHashHighlighter';
+
+// File that git's own tooling (and GitHub) use for revisions blame should skip
+const DEFAULT_IGNORE_REVS_FILE = '.git-blame-ignore-revs';
+
+// How far `git blame -C` looks for the origin of copied lines
+type CopyDetection = 'off' | 'sameCommit' | 'fileCreation' | 'anyCommit';
+
+const COPY_DETECTION_FLAGS: Record<CopyDetection, string[]> = {
+  off: [],
+  sameCommit: ['-C'],
+  fileCreation: ['-C', '-C'],
+  anyCommit: ['-C', '-C', '-C']
+};
+
+/**
+ * Build the `git blame` options from the `commitHashHighlighter.blame.*` settings for a repository.
+ */
+export function getBlameOptionArgs(repositoryRoot: string): string[] {
+  const config = vscode.workspace.getConfiguration(`${CONFIGURATION_SECTION}.blame`, vscode.Uri.file(repositoryRoot));
+  const args: string[] = [];
+
+  if (config.get<boolean>('ignoreWhitespace', false)) {
+    args.push('-w');
+  }
+  if (config.get<boolean>('detectMoves', false)) {
+    args.push('-M');
+  }
+  const copyDetection = config.get<CopyDetection>('detectCopies', 'off');
+  args.push(...(COPY_DETECTION_FLAGS[copyDetection] ?? []));
+
+  const configuredIgnoreRevsFile = config.get<string>('ignoreRevsFile', '').trim();
+  const ignoreRevsFile = configuredIgnoreRevsFile
+    ? path.resolve(repositoryRoot, configuredIgnoreRevsFile)
+    : path.join(repositoryRoot, DEFAULT_IGNORE_REVS_FILE);
+  if (fs.existsSync(ignoreRevsFile)) {
+    if (configuredIgnoreRevsFile || config.get<boolean>('autoDetectIgnoreRevsFile', true)) {
+      args.push('--ignore-revs-file', ignoreRevsFile);
+    }
+  } else if (configuredIgnoreRevsFile) {
+    console.warn(`Ignore-revs file not found: ${ignoreRevsFile}`);
+  }
+
+  return args;
+}
+
+/**
+ * Maximum number of blame results kept in memory (`commitHashHighlighter.blame.cacheSize`).
+ */
+export function getBlameCacheSize(): number {
+  return vscode.workspace.getConfiguration(`${CONFIGURATION_SECTION}.blame`).get<number>('cacheSize', 200);
+}
+
+/**
+ * Whether entered commits also match their rebased copies and cherry-picks (`commitHashHighlighter.patchId.enabled`).
+ */
+export function isPatchIdMatchingEnabled(): boolean {
+  return vscode.workspace.getConfiguration(`${CONFIGURATION_SECTION}.patchId`).get<boolean>('enabled', false);
+}
+
+/**
+ * The ref "My branch" mode compares HEAD against (`commitHashHighlighter.myBranch.base`): a ref, or `upstream`.
+ */
+export function getBranchBase(): string {
+  return vscode.workspace.getConfiguration(`${CONFIGURATION_SECTION}.myBranch`).get<string>('base', 'upstream').trim();
+}
+
+// Newest to oldest: recent lines are hot, old lines cool
+const DEFAULT_HEATMAP_COLORS = ['#ff4500', '#ffd700', '#1e90ff'];
+
+/**
+ * The heatmap gradient and the age at which it ends, from the `commitHashHighlighter.heatmap.*` settings.
+ */
+export function getHeatmapStyle(): { gradient: string[]; maxAgeSeconds: number } {
+  const config = vscode.workspace.getConfiguration(`${CONFIGURATION_SECTION}.heatmap`);
+  const colors = config.get<string[]>('colors', DEFAULT_HEATMAP_COLORS).filter(color => /^#[0-9a-fA-F]{6}$/.test(color));
+  const maxAgeDays = Math.max(config.get<number>('maxAgeDays', 365), 1);
+  return {
+    gradient: colors.length > 0 ? colors : DEFAULT_HEATMAP_COLORS,
+    maxAgeSeconds: maxAgeDays * 24 * 60 * 60
+  };
+}
+
+// Where highlighted lines are marked in the overview ruler, or 'none'
+type OverviewRulerLaneSetting = 'left' | 'center' | 'right' | 'full' | 'none';
+
+const OVERVIEW_RULER_LANES: Record<Exclude<OverviewRulerLaneSetting, 'none'>, vscode.OverviewRulerLane> = {
+  left: vscode.OverviewRulerLane.Left,
+  center: vscode.OverviewRulerLane.Center,
+  right: vscode.OverviewRulerLane.Right,
+  full: vscode.OverviewRulerLane.Full
+};
+
+// Looks like a theme color ID ("editor.findMatchHighlightBackground") rather than a CSS value
+const THEME_COLOR_ID_PATTERN = /^[a-zA-Z][\w-]*(\.[\w-]+)+$/;
+
+/**
+ * How highlighted lines are drawn, from the `commitHashHighlighter.decoration.*` settings.
+ * Colors are undefined when the commit's own highlight color should be used.
+ */
+export interface DecorationStyle {
+  backgroundColor: string | vscode.ThemeColor | undefined;
+  borderColor: string | vscode.ThemeColor | undefined;
+  wholeLine: boolean;
+  gutterIcon: boolean;
+  overviewRulerLane: vscode.OverviewRulerLane | undefined;
+  minimap: boolean;
+  explorerBadge: string;
+}
+
+/**
+ * Read the decoration settings.
+ */
+export function getDecorationStyle(): DecorationStyle {
+  const config = vscode.workspace.getConfiguration(`${CONFIGURATION_SECTION}.decoration`);
+  const lane = config.get<OverviewRulerLaneSetting>('overviewRulerLane', 'right');
+  return {
+    backgroundColor: toDecorationColor(config.get<string>('backgroundColor', '')),
+    borderColor: toDecorationColor(config.get<string>('borderColor', '')),
+    wholeLine: config.get<boolean>('wholeLine', true),
+    gutterIcon: config.get<boolean>('gutterIcon', false),
+    overviewRulerLane: lane === 'none' ? undefined : OVERVIEW_RULER_LANES[lane] ?? vscode.OverviewRulerLane.Right,
+    minimap: config.get<boolean>('minimap', true),
+    explorerBadge: config.get<string>('explorerBadge', '·').trim()
+  };
+}
+
+// A theme color ID becomes a ThemeColor; anything else is passed on as a CSS value
+function toDecorationColor(value: string): string | vscode.ThemeColor | undefined {
+  const color = value.trim();
+  if (color.length === 0) {
+    return undefined;
+  }
+  return THEME_COLOR_ID_PATTERN.test(color) ? new vscode.ThemeColor(color) : color;
+}
@@ -0,0 +1,67 @@
+// A hunk header of a zero-context unified diff ("@@ -oldStart,oldCount +newStart,newCount @@")
+export interface DiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+}
+
+// Where a line of the old version ended up in the new version (one-based)
+export interface MappedLine {
+  line: number;
+  status: 'unchanged' | 'changed' | 'removed';
+}
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse the hunk headers of a unified diff produced with `-U0`.
+ */
+export function parseDiffHunks(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  for (const line of diff.split('\n')) {
+    const match = line.match(HUNK_HEADER_PATTERN);
+    if (match) {
+      hunks.push({
+        oldStart: parseInt(match[1], 10),
+        oldCount: match[2] === undefined ? 1 : parseInt(match[2], 10),
+        newStart: parseInt(match[3], 10),
+        newCount: match[4] === undefined ? 1 : parseInt(match[4], 10)
+      });
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Follow a line of the old version through the hunks of a `-U0` diff to the new version.
+ * Lines inside a hunk are reported as changed (mapped onto the replacing lines) or removed
+ * (mapped onto the line after the removal).
+ */
+export function mapLineThroughHunks(hunks: DiffHunk[], oldLine: number): MappedLine {
+  let offset = 0;
+  for (const hunk of hunks) {
+    if (hunk.oldCount === 0) {
+      // Pure insertion after old line `oldStart`
+      if (hunk.oldStart < oldLine) {
+        offset += hunk.newCount;
+        continue;
+      }
+      break;
+    }
+    const oldEnd = hunk.oldStart + hunk.oldCount - 1;
+    if (oldEnd < oldLine) {
+      offset += hunk.newCount - hunk.oldCount;
+      continue;
+    }
+    if (hunk.oldStart <= oldLine) {
+      if (hunk.newCount > 0) {
+        return { line: hunk.newStart + Math.min(oldLine - hunk.oldStart, hunk.newCount - 1), status: 'changed' };
+      }
+      // For pure deletions `newStart` is the line before the removed block
+      return { line: hunk.newStart + 1, status: 'removed' };
+    }
+    break;
+  }
+  return { line: oldLine + offset, status: 'unchanged' };
+}
@@ -0,0 +1,61 @@
+import * as path from 'path';
+
+/**
+ * Which version of a file an editor shows: the working tree copy, the index (staged) copy, or
+ * the file as of a commit, as in the sides of a diff editor or a Timeline entry.
+ */
+export type DocumentRevision =
+  | { kind: 'workingTree'; filePath: string }
+  | { kind: 'index'; filePath: string }
+  | { kind: 'commit'; filePath: string; revision: string };
+
+// The parts of a vscode.Uri needed to tell which version of a file it names
+export interface RevisionUri {
+  scheme: string;
+  fsPath: string;
+  query: string;
+}
+
+/**
+ * Find the file (and version of it) a document URI shows, or undefined for documents that are
+ * not backed by a file in a repository (untitled buffers, output panels, settings, patches...).
+ *
+ * Besides `file:` URIs this understands URIs carrying `{ path, ref }` or `{ path, commit }` as
+ * JSON in their query, which is how the built-in Git extension (`git:`) and pull request views
+ * name file revisions. The Git extension's `~` refs and an empty ref mean the index.
+ */
+export function parseDocumentRevision(uri: RevisionUri): DocumentRevision | undefined {
+  if (uri.scheme === 'file') {
+    return { kind: 'workingTree', filePath: uri.fsPath };
+  }
+  let query: unknown;
+  try {
+    query = JSON.parse(uri.query);
+  } catch {
+    return undefined;
+  }
+  if (typeof query !== 'object' || query === null) {
+    return undefined;
+  }
+  const { path: queryPath, ref, commit, rootPath } = query as Record<string, unknown>;
+  if (typeof queryPath !== 'string' || queryPath.length === 0) {
+    return undefined;
+  }
+  let filePath = queryPath;
+  if (!path.isAbsolute(filePath)) {
+    if (typeof rootPath !== 'string') {
+      return undefined;
+    }
+    filePath = path.join(rootPath, filePath);
+  }
+  filePath = path.normalize(filePath);
+
+  const revision = typeof commit === 'string' ? commit : ref;
+  if (typeof revision !== 'string') {
+    return undefined;
+  }
+  if (revision === '' || /^~\d?$/.test(revision)) {
+    return { kind: 'index', filePath };
+  }
+  return { kind: 'commit', filePath, revision };
+}
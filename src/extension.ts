@@ -1,12 +1,18 @@
 import * as vscode from 'vscode';
 import { SidebarProvider } from './SidebarProvider';
+import { CommitDiffProvider } from './CommitDiffProvider';
+import { CommitNode, CommitTreeProvider } from './CommitTreeProvider';
+import { HighlightNavigator } from './HighlightNavigator';
+import { SurvivalReporter } from './SurvivalReport';
+import { CommitCodeLensProvider } from './CommitCodeLensProvider';
+import { HighlightStatusBar } from './HighlightStatusBar';
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('Congratulations, your extension "commit-hash-highlighter" is now active!');
 
   try {
     // Create and register the sidebar provider (webview)
-    const sidebarProvider = new SidebarProvider(context.extensionUri);
+    const sidebarProvider = new SidebarProvider(context.extensionUri, context.workspaceState);
     context.subscriptions.push(
       vscode.window.registerWebviewViewProvider(
         'commit-hash-highlighter-sidebar',
@@ -21,6 +27,108 @@ export function activate(context: vscode.ExtensionContext) {
       })
     );
 
+    // Read-only documents for commit diffs opened from hovers
+    context.subscriptions.push(
+      vscode.workspace.registerTextDocumentContentProvider(CommitDiffProvider.scheme, new CommitDiffProvider())
+    );
+
+    // Commands used by the links in blame hovers
+    context.subscriptions.push(
+      vscode.commands.registerCommand('commit-hash-highlighter.copyHash', async (target: string | CommitNode) => {
+        const hash = typeof target === 'string' ? target : target.hash;
+        await vscode.env.clipboard.writeText(hash);
+        vscode.window.showInformationMessage(`Copied ${hash.substring(0, 8)} to the clipboard`);
+      }),
+      vscode.commands.registerCommand('commit-hash-highlighter.openCommitDiff', (hash: string, cwd?: string) => {
+        return CommitDiffProvider.open(hash, cwd);
+      }),
+      vscode.commands.registerCommand('commit-hash-highlighter.removeHash', (target: string | CommitNode) => {
+        return sidebarProvider.removeCommit(typeof target === 'string' ? target : target.hash);
+      })
+    );
+
+    // Palette/keybinding equivalents of the sidebar controls, and adding commits from other views
+    context.subscriptions.push(
+      vscode.commands.registerCommand('commit-hash-highlighter.toggleHighlighting', () => {
+        return sidebarProvider.setHighlightingEnabled();
+      }),
+      vscode.commands.registerCommand('commit-hash-highlighter.switchHighlightSet', () => {
+        return sidebarProvider.pickHighlightSet();
+      }),
+      // Clearing only removes the decorations; the entries stay in the set for the next toggle
+      vscode.commands.registerCommand('commit-hash-highlighter.clearHighlights', () => {
+        return sidebarProvider.setHighlightingEnabled(false);
+      }),
+      vscode.commands.registerCommand('commit-hash-highlighter.clearEntries', () => {
+        return sidebarProvider.clearEntries();
+      }),
+      vscode.commands.registerCommand('commit-hash-highlighter.addCommitUnderCursor', () => {
+        return sidebarProvider.addCommitUnderCursor();
+      }),
+      vscode.commands.registerCommand('commit-hash-highlighter.toggleMyBranch', () => {
+        return sidebarProvider.toggleMyBranch();
+      }),
+      vscode.commands.registerCommand('commit-hash-highlighter.chooseBranchBase', () => {
+        return sidebarProvider.chooseBranchBase();
+      }),
+      vscode.commands.registerCommand('commit-hash-highlighter.addCommits', (...args: unknown[]) => {
+        const hashes = commitHashesFromArguments(args);
+        if (hashes.length === 0) {
+          vscode.window.showInformationMessage('The selection does not contain a commit');
+          return;
+        }
+        return sidebarProvider.addEntries(hashes);
+      })
+    );
+
+    // Tree view of commits → files → highlighted line ranges
+    const commitTreeProvider = new CommitTreeProvider(sidebarProvider);
+    context.subscriptions.push(
+      vscode.window.createTreeView('commit-hash-highlighter-tree', {
+        treeDataProvider: commitTreeProvider,
+        showCollapseAll: true
+      }),
+      commitTreeProvider,
+      vscode.commands.registerCommand('commit-hash-highlighter.refreshTree', () => {
+        commitTreeProvider.refresh();
+      }),
+      vscode.commands.registerCommand('commit-hash-highlighter.toggleCommit', (node: CommitNode) => {
+        return sidebarProvider.setCommitEnabled(node.hash, !node.enabled);
+      })
+    );
+
+    // Next/previous highlighted block navigation
+    const highlightNavigator = new HighlightNavigator(sidebarProvider);
+    context.subscriptions.push(
+      vscode.commands.registerCommand('commit-hash-highlighter.nextHighlight', (commit?: string, fromLine?: number) => {
+        return highlightNavigator.navigate('next', commit, fromLine);
+      }),
+      vscode.commands.registerCommand('commit-hash-highlighter.previousHighlight', (commit?: string, fromLine?: number) => {
+        return highlightNavigator.navigate('previous', commit, fromLine);
+      }),
+      vscode.commands.registerCommand('commit-hash-highlighter.chooseNavigationCommit', () => {
+        return highlightNavigator.chooseCommitFilter();
+      })
+    );
+
+    // Commit summary and actions above each highlighted block
+    const codeLensProvider = new CommitCodeLensProvider(sidebarProvider);
+    context.subscriptions.push(
+      vscode.languages.registerCodeLensProvider({ scheme: 'file' }, codeLensProvider),
+      codeLensProvider
+    );
+
+    // Highlight state and counts in the status bar
+    context.subscriptions.push(new HighlightStatusBar(sidebarProvider));
+
+    // Commit-survival report export
+    const survivalReporter = new SurvivalReporter(sidebarProvider);
+    context.subscriptions.push(
+      vscode.commands.registerCommand('commit-hash-highlighter.exportSurvivalReport', () => {
+        return survivalReporter.exportReport();
+      })
+    );
+
     // Ensure proper disposal
     context.subscriptions.push({
       dispose: () => {
@@ -37,3 +145,18 @@ export function activate(context: vscode.ExtensionContext) {
 export function deactivate() {
   // Clean-up is handled via context.subscriptions disposal.
 }
+
+// Timeline items and SCM history items identify a commit by its hash in `id`; multi-selections
+// arrive as arrays. Other arguments (providers, URIs, working-tree timeline entries) are skipped.
+function commitHashesFromArguments(args: unknown[]): string[] {
+  const hashes: string[] = [];
+  for (const arg of args) {
+    for (const item of Array.isArray(arg) ? arg : [arg]) {
+      const id = (item as { id?: unknown } | undefined)?.id;
+      if (typeof id === 'string' && /^[0-9a-f]{7,64}$/i.test(id) && !hashes.includes(id)) {
+        hashes.push(id);
+      }
+    }
+  }
+  return hashes;
+}
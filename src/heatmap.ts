@@ -0,0 +1,37 @@
+// Lines are shaded in this many distinct colors, so a file needs at most this many decoration types
+export const HEATMAP_STEPS = 10;
+
+/**
+ * The color (#rrggbb) for a line of the given age: the gradient runs from its first color for
+ * brand-new lines to its last color for lines `maxAge` old or older. Ages are rounded to one of
+ * `HEATMAP_STEPS` steps.
+ */
+export function heatmapColor(ageSeconds: number, maxAgeSeconds: number, gradient: string[]): string {
+  const ratio = maxAgeSeconds > 0 ? Math.min(Math.max(ageSeconds / maxAgeSeconds, 0), 1) : 1;
+  const step = Math.round(ratio * (HEATMAP_STEPS - 1)) / (HEATMAP_STEPS - 1);
+  return interpolateGradient(gradient, step);
+}
+
+/**
+ * The color at `position` (0 to 1) along a gradient of evenly spaced #rrggbb colors.
+ */
+export function interpolateGradient(gradient: string[], position: number): string {
+  if (gradient.length === 0) {
+    return '#000000';
+  }
+  if (gradient.length === 1) {
+    return gradient[0];
+  }
+  const scaled = position * (gradient.length - 1);
+  const index = Math.min(Math.floor(scaled), gradient.length - 2);
+  const fraction = scaled - index;
+  const from = parseColor(gradient[index]);
+  const to = parseColor(gradient[index + 1]);
+  return '#' + from
+    .map((channel, i) => Math.round(channel + (to[i] - channel) * fraction).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function parseColor(color: string): number[] {
+  return [1, 3, 5].map(offset => parseInt(color.slice(offset, offset + 2), 16));
+}
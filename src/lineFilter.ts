@@ -0,0 +1,140 @@
+/**
+ * Selects lines by who wrote them and when, as entered in the sidebar's filter fields.
+ * Empty fields do not restrict anything.
+ */
+export interface LineFilter {
+  // Part of an author name or email, case-insensitive
+  author: string;
+  // Dates as YYYY-MM-DD, or ages such as "30d", "2w", "6m", "1y"
+  since: string;
+  until: string;
+}
+
+// A line filter with its dates resolved to seconds since the epoch
+export interface ParsedLineFilter {
+  author?: string;
+  since?: number;
+  until?: number;
+}
+
+// The author fields of a commit the filter is matched against
+export interface AuthorInfo {
+  names: string[];
+  mails: string[];
+  // Seconds since the epoch
+  time: number;
+}
+
+/**
+ * `git log` format read by parseAuthorRecords: the hash, the author name and email as recorded in
+ * the commit and as .mailmap maps them, and the author time.
+ */
+export const AUTHOR_RECORD_FORMAT = '%H%x00%an%x00%ae%x00%aN%x00%aE%x00%at';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const AGE_UNITS: Record<string, number> = {
+  d: DAY_SECONDS,
+  w: 7 * DAY_SECONDS,
+  m: 30 * DAY_SECONDS,
+  y: 365 * DAY_SECONDS
+};
+
+/**
+ * Resolve the filter's dates. Throws if a date is neither YYYY-MM-DD nor an age like "2w".
+ */
+export function parseLineFilter(filter: LineFilter, now: number = Date.now()): ParsedLineFilter {
+  const author = filter.author.trim().toLowerCase();
+  return {
+    author: author.length > 0 ? author : undefined,
+    since: parseDateBound(filter.since, now, false),
+    until: parseDateBound(filter.until, now, true)
+  };
+}
+
+/**
+ * Parse one end of a date range into seconds since the epoch (undefined when empty).
+ * A calendar date covers its whole day, so as an upper bound it means the end of that day.
+ */
+export function parseDateBound(text: string, now: number, endOfDay: boolean): number | undefined {
+  const value = text.trim();
+  if (value.length === 0) {
+    return undefined;
+  }
+  const age = value.match(/^(\d+)\s*([dwmy])$/i);
+  if (age) {
+    return Math.floor(now / 1000) - Number(age[1]) * AGE_UNITS[age[2].toLowerCase()];
+  }
+  const date = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (date) {
+    const start = new Date(Number(date[1]), Number(date[2]) - 1, Number(date[3])).getTime() / 1000;
+    if (!isNaN(start)) {
+      return endOfDay ? start + DAY_SECONDS - 1 : start;
+    }
+  }
+  throw new Error(`'${value}' is not a date (YYYY-MM-DD) or an age such as 30d, 2w, 6m or 1y`);
+}
+
+/**
+ * Parse `git log --format=AUTHOR_RECORD_FORMAT` output into the author of each commit, keyed by
+ * full hash. Both the recorded and the mailmapped identity are kept, so a filter matches an
+ * author under any of their aliases.
+ */
+export function parseAuthorRecords(stdout: string): Map<string, AuthorInfo> {
+  const authors = new Map<string, AuthorInfo>();
+  for (const line of stdout.split('\n')) {
+    const [hash, name, mail, mappedName, mappedMail, time] = line.split('\0');
+    if (time === undefined) {
+      continue;
+    }
+    authors.set(hash, {
+      names: Array.from(new Set([name, mappedName])),
+      mails: Array.from(new Set([mail, mappedMail])),
+      time: parseInt(time, 10)
+    });
+  }
+  return authors;
+}
+
+/**
+ * Whether a commit's author matches the filter.
+ */
+export function matchesLineFilter(author: AuthorInfo, filter: ParsedLineFilter): boolean {
+  if (filter.author !== undefined) {
+    const needle = filter.author;
+    if (![...author.names, ...author.mails].some(value => value.toLowerCase().includes(needle))) {
+      return false;
+    }
+  }
+  if (filter.since !== undefined && author.time < filter.since) {
+    return false;
+  }
+  if (filter.until !== undefined && author.time > filter.until) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Short label for a filter, e.g. "Author alice · since 2w".
+ */
+export function describeLineFilter(filter: LineFilter): string {
+  const parts: string[] = [];
+  if (filter.author.trim()) {
+    parts.push(`Author ${filter.author.trim()}`);
+  }
+  if (filter.since.trim()) {
+    parts.push(`since ${filter.since.trim()}`);
+  }
+  if (filter.until.trim()) {
+    parts.push(`until ${filter.until.trim()}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'All lines';
+}
+
+/**
+ * Whether a filter restricts anything at all.
+ */
+export function isLineFilterEmpty(filter: LineFilter): boolean {
+  return !filter.author.trim() && !filter.since.trim() && !filter.until.trim();
+}
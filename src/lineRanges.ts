@@ -0,0 +1,22 @@
+// A block of consecutive lines (zero-based, inclusive)
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Collapse line numbers into contiguous ranges, e.g. [1, 2, 3, 7] becomes [1-3, 7-7].
+ */
+export function groupContiguousLines(lines: number[]): LineRange[] {
+  const sorted = Array.from(new Set(lines)).sort((a, b) => a - b);
+  const ranges: LineRange[] = [];
+  for (const line of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && line === last.end + 1) {
+      last.end = line;
+    } else {
+      ranges.push({ start: line, end: line });
+    }
+  }
+  return ranges;
+}
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { parsePorcelainBlame } from '../BlameParser';
+
+const HASH_A = 'a'.repeat(40);
+const HASH_B = 'b'.repeat(40);
+
+const PORCELAIN = [
+	`${HASH_A} 1 1 2`,
+	'author Alice',
+	'author-mail <alice@example.com>',
+	'author-time 1700000000',
+	'author-tz +0100',
+	'committer Bob',
+	'committer-mail <bob@example.com>',
+	'committer-time 1700000100',
+	'committer-tz +0100',
+	'summary Fix retry backoff',
+	'filename src/retry.ts',
+	'\tconst retries = 3;',
+	`${HASH_A} 2 2`,
+	'\tconst delay = 100;',
+	`${HASH_B} 7 3 1`,
+	'author Carol',
+	'author-mail <carol@example.com>',
+	'author-time 1710000000',
+	'author-tz +0000',
+	'committer Carol',
+	'committer-mail <carol@example.com>',
+	'committer-time 1710000000',
+	'committer-tz +0000',
+	'summary Add jitter',
+	'previous cccccccccccccccccccccccccccccccccccccccc src/retry.ts',
+	'filename src/retry.ts',
+	'\tconst jitter = true;',
+	''
+].join('\n');
+
+suite('BlameParser Test Suite', () => {
+	test('groups lines per commit with zero-based final lines', () => {
+		const infos = parsePorcelainBlame(PORCELAIN);
+		assert.deepStrictEqual(infos.map(info => info.hash), [HASH_A, HASH_B]);
+		assert.deepStrictEqual(infos[0].lines, [0, 1]);
+		assert.deepStrictEqual(infos[0].originalLines, [1, 2]);
+		assert.deepStrictEqual(infos[1].lines, [2]);
+		assert.deepStrictEqual(infos[1].originalLines, [7]);
+	});
+
+	test('captures commit metadata', () => {
+		const [first] = parsePorcelainBlame(PORCELAIN);
+		assert.strictEqual(first.author, 'Alice');
+		assert.strictEqual(first.authorMail, 'alice@example.com');
+		assert.strictEqual(first.authorTime, 1700000000);
+		assert.strictEqual(first.committer, 'Bob');
+		assert.strictEqual(first.summary, 'Fix retry backoff');
+	});
+});
@@ -0,0 +1,166 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommitResolver, findBlockedLogOption, isRevisionRange, parseChangeIdCommits, splitArguments } from '../CommitResolver';
+
+const CHANGE_ID = 'I' + 'a'.repeat(40);
+const OTHER_CHANGE_ID = 'I' + 'b'.repeat(40);
+
+suite('CommitResolver', () => {
+	test('splits arguments on whitespace', () => {
+		assert.deepStrictEqual(splitArguments('  --author=alice   --since=2.weeks\tmain '), ['--author=alice', '--since=2.weeks', 'main']);
+		assert.deepStrictEqual(splitArguments('   '), []);
+	});
+
+	test('keeps quoted text together and drops the quotes', () => {
+		assert.deepStrictEqual(splitArguments('--grep="fix retry backoff" --author=\'Bob Builder\''), ['--grep=fix retry backoff', '--author=Bob Builder']);
+		assert.deepStrictEqual(splitArguments('--grep="it\'s"'), ['--grep=it\'s']);
+		assert.deepStrictEqual(splitArguments('--grep=""'), ['--grep=']);
+		assert.deepStrictEqual(splitArguments('""'), ['']);
+	});
+
+	test('recognizes range notation', () => {
+		assert.ok(isRevisionRange('main..feature/x'));
+		assert.ok(isRevisionRange('v2.3.0...HEAD'));
+		assert.ok(isRevisionRange('a1b2c3d^!'));
+		assert.ok(isRevisionRange('a1b2c3d^@'));
+		assert.ok(!isRevisionRange('feature/x'));
+		assert.ok(!isRevisionRange('HEAD~3'));
+		assert.ok(!isRevisionRange('a1b2c3d^'));
+	});
+
+	test('rejects log options that write files or run programs', () => {
+		assert.strictEqual(findBlockedLogOption(['--output=/tmp/pwned', 'HEAD']), '--output=/tmp/pwned');
+		assert.strictEqual(findBlockedLogOption(['-p', '--output', '/tmp/pwned']), '--output');
+		assert.strictEqual(findBlockedLogOption(['-p', '--ext-diff']), '--ext-diff');
+		assert.strictEqual(findBlockedLogOption(['-p', '--textconv']), '--textconv');
+		// Quotes are stripped before the check, so they cannot hide an option
+		assert.strictEqual(findBlockedLogOption(splitArguments('"--output=/tmp/pwned"')), '--output=/tmp/pwned');
+	});
+
+	test('allows ordinary log queries', () => {
+		assert.strictEqual(findBlockedLogOption(splitArguments('--author=alice --since=2.weeks -- src/')), undefined);
+		assert.strictEqual(findBlockedLogOption(['--no-ext-diff', '--grep=output']), undefined);
+	});
+
+	test('keeps only commits whose Change-Id trailer matches exactly', () => {
+		const output = [
+			'1111111111111111111111111111111111111111', CHANGE_ID,
+			// Mentions the Change-Id in its message, but its own trailer is another one
+			'\n2222222222222222222222222222222222222222', OTHER_CHANGE_ID,
+			// Several Change-Id trailers
+			'\n3333333333333333333333333333333333333333', `${OTHER_CHANGE_ID}\x01${CHANGE_ID}`,
+			'\n4444444444444444444444444444444444444444', '',
+			''
+		].join('\0');
+		assert.deepStrictEqual(parseChangeIdCommits(output, CHANGE_ID), [
+			'1111111111111111111111111111111111111111',
+			'3333333333333333333333333333333333333333'
+		]);
+		assert.deepStrictEqual(parseChangeIdCommits('', CHANGE_ID), []);
+	});
+});
+
+suite('CommitResolver patch-id matching', () => {
+	let repository: string;
+
+	function git(...args: string[]): string {
+		return cp.execFileSync('git', args, {
+			cwd: repository,
+			encoding: 'utf8',
+			env: {
+				...process.env,
+				GIT_AUTHOR_NAME: 'Alice', GIT_AUTHOR_EMAIL: 'alice@example.com',
+				GIT_COMMITTER_NAME: 'Alice', GIT_COMMITTER_EMAIL: 'alice@example.com'
+			}
+		}).trim();
+	}
+
+	setup(() => {
+		repository = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-resolver-test-'));
+		git('init', '--quiet', '--initial-branch=main');
+		git('config', 'commit.gpgsign', 'false');
+	});
+
+	teardown(() => {
+		fs.rmSync(repository, { recursive: true, force: true });
+	});
+
+	test('finds the cherry-pick of a commit that renamed and edited a file', async () => {
+		const lines = Array.from({ length: 30 }, (_value, index) => `line ${index}`);
+		fs.writeFileSync(path.join(repository, 'old.txt'), lines.join('\n') + '\n');
+		git('add', '.');
+		git('commit', '--quiet', '-m', 'Add old.txt');
+
+		git('checkout', '--quiet', '-b', 'feature');
+		git('mv', 'old.txt', 'new.txt');
+		fs.writeFileSync(path.join(repository, 'new.txt'), lines.map(line => line === 'line 5' ? 'line five' : line).join('\n') + '\n');
+		git('commit', '--quiet', '-am', 'Rename and edit');
+		const original = git('rev-parse', 'HEAD');
+
+		git('checkout', '--quiet', 'main');
+		fs.writeFileSync(path.join(repository, 'other.txt'), 'other\n');
+		git('add', '.');
+		git('commit', '--quiet', '-m', 'Unrelated');
+		git('cherry-pick', original);
+		const copy = git('rev-parse', 'HEAD');
+
+		const [entry] = await new CommitResolver().resolveEntries([original], [repository], { matchPatchIds: true });
+		assert.deepStrictEqual(entry.patchEquivalents, { original, equivalents: [copy], rebased: true });
+		assert.deepStrictEqual(entry.commits, [copy]);
+	});
+});
+
+suite('CommitResolver line filters', () => {
+	let repository: string;
+
+	function commit(author: string, email: string, file: string) {
+		fs.writeFileSync(path.join(repository, file), `${file}\n`);
+		cp.execFileSync('git', ['add', '.'], { cwd: repository });
+		cp.execFileSync('git', ['commit', '--quiet', '-m', `Add ${file}`], {
+			cwd: repository,
+			env: {
+				...process.env,
+				GIT_AUTHOR_NAME: author, GIT_AUTHOR_EMAIL: email,
+				GIT_COMMITTER_NAME: author, GIT_COMMITTER_EMAIL: email
+			}
+		});
+		return cp.execFileSync('git', ['rev-parse', 'HEAD'], { cwd: repository, encoding: 'utf8' }).trim();
+	}
+
+	setup(() => {
+		repository = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-resolver-test-'));
+		cp.execFileSync('git', ['init', '--quiet', '--initial-branch=main'], { cwd: repository });
+		cp.execFileSync('git', ['config', 'commit.gpgsign', 'false'], { cwd: repository });
+	});
+
+	teardown(() => {
+		fs.rmSync(repository, { recursive: true, force: true });
+	});
+
+	test('lists the commits of an author under their recorded or mailmapped name, but none in the entry', async () => {
+		fs.writeFileSync(path.join(repository, '.mailmap'), 'Bob Builder <bob@example.com> <bob@old.example>\n');
+		const old = commit('bobby', 'bob@old.example', 'old.txt');
+		commit('Alice', 'alice@example.com', 'alice.txt');
+		const current = commit('Bob Builder', 'bob@example.com', 'new.txt');
+
+		const resolver = new CommitResolver();
+		const { entry, parsed, matchingCommits } = await resolver.resolveFilter({ author: 'Builder', since: '', until: '' }, [repository]);
+		assert.ok(parsed);
+		assert.deepStrictEqual(entry.commits, []);
+		assert.deepStrictEqual(new Set(matchingCommits.keys()), new Set([old, current]));
+		assert.deepStrictEqual(matchingCommits.get(old), [repository]);
+
+		const byAlias = await resolver.resolveFilter({ author: 'BOBBY', since: '', until: '' }, [repository]);
+		assert.deepStrictEqual(Array.from(byAlias.matchingCommits.keys()), [old]);
+	});
+
+	test('reports invalid filters without listing commits', async () => {
+		const { entry, parsed, matchingCommits } = await new CommitResolver().resolveFilter({ author: '', since: 'yesterday', until: '' }, [repository]);
+		assert.strictEqual(parsed, undefined);
+		assert.ok(entry.error);
+		assert.strictEqual(matchingCommits.size, 0);
+	});
+});
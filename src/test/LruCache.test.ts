@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { LruCache } from '../LruCache';
+
+suite('LruCache', () => {
+	test('evicts the least recently used entry when full', () => {
+		const cache = new LruCache<string, number>(2);
+		cache.set('a', 1);
+		cache.set('b', 2);
+		assert.strictEqual(cache.get('a'), 1);
+		cache.set('c', 3);
+		assert.strictEqual(cache.get('b'), undefined);
+		assert.strictEqual(cache.get('a'), 1);
+		assert.strictEqual(cache.get('c'), 3);
+	});
+
+	test('shrinks to a smaller capacity', () => {
+		const cache = new LruCache<string, number>(3);
+		cache.set('a', 1);
+		cache.set('b', 2);
+		cache.set('c', 3);
+		cache.resize(1);
+		assert.strictEqual(cache.size, 1);
+		assert.strictEqual(cache.get('c'), 3);
+	});
+
+	test('deletes matching keys', () => {
+		const cache = new LruCache<string, number>(5);
+		cache.set('/repo/a.ts\0x', 1);
+		cache.set('/repo/a.ts\0y', 2);
+		cache.set('/repo/b.ts\0x', 3);
+		cache.deleteWhere(key => key.startsWith('/repo/a.ts\0'));
+		assert.strictEqual(cache.size, 1);
+		assert.strictEqual(cache.get('/repo/b.ts\0x'), 3);
+	});
+});
@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { ProcessPool } from '../ProcessPool';
+
+suite('ProcessPool', () => {
+	test('never runs more tasks than allowed at once', async () => {
+		const pool = new ProcessPool(2);
+		let running = 0;
+		let maxRunning = 0;
+		const task = async (value: number) => {
+			running++;
+			maxRunning = Math.max(maxRunning, running);
+			await new Promise(resolve => setTimeout(resolve, 5));
+			running--;
+			return value;
+		};
+		const results = await Promise.all([1, 2, 3, 4, 5].map(value => pool.run(() => task(value))));
+		assert.deepStrictEqual(results, [1, 2, 3, 4, 5]);
+		assert.strictEqual(maxRunning, 2);
+	});
+
+	test('frees the slot of a failed task', async () => {
+		const pool = new ProcessPool(1);
+		await assert.rejects(pool.run(() => Promise.reject(new Error('git failed'))));
+		assert.strictEqual(await pool.run(() => Promise.resolve('next')), 'next');
+	});
+});
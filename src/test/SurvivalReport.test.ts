@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { formatMarkdownReport, formatSarifReport, SurvivalReport } from '../SurvivalReport';
+
+const REPORT: SurvivalReport = {
+	generatedAt: '2024-01-01T00:00:00.000Z',
+	commits: [{
+		hash: '0123456789abcdef0123456789abcdef01234567',
+		subject: 'Fix retry backoff',
+		author: 'Alice',
+		repository: '/work/repo',
+		addedLines: 10,
+		survivingLines: 3,
+		files: [{
+			path: 'src/retry.ts',
+			addedLines: 10,
+			survivingLines: 3,
+			ranges: [{ startLine: 4, endLine: 6, snippet: 'const a = 1;\nconst b = ```;\nconst c = 3;' }]
+		}]
+	}]
+};
+
+suite('SurvivalReport Test Suite', () => {
+	test('Markdown lists counts and fences snippets safely', () => {
+		const markdown = formatMarkdownReport(REPORT);
+		assert.ok(markdown.includes('| `01234567` | Fix retry backoff | Alice | 3 / 10 |'));
+		assert.ok(markdown.includes('Lines 4–6:'));
+		assert.ok(markdown.includes('````\nconst a = 1;'));
+	});
+
+	test('SARIF has one result per surviving range', () => {
+		const sarif = formatSarifReport(REPORT) as { version: string; runs: { results: { locations: { physicalLocation: { region: { startLine: number } } }[] }[] }[] };
+		assert.strictEqual(sarif.version, '2.1.0');
+		assert.strictEqual(sarif.runs.length, 1);
+		assert.strictEqual(sarif.runs[0].results.length, 1);
+		assert.strictEqual(sarif.runs[0].results[0].locations[0].physicalLocation.region.startLine, 4);
+	});
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { mapLineThroughHunks, parseDiffHunks } from '../diffHunks';
+
+const DIFF = [
+	'diff --git a/old b/new',
+	'index 1111111..2222222 100644',
+	'--- a/old',
+	'+++ b/new',
+	'@@ -2,0 +3,2 @@ function start() {',
+	'+inserted one',
+	'+inserted two',
+	'@@ -5,2 +7 @@',
+	'-replaced one',
+	'-replaced two',
+	'+replacement',
+	'@@ -9,3 +9,0 @@',
+	'-gone',
+	'-gone',
+	'-gone',
+].join('\n');
+
+suite('diffHunks', () => {
+	test('parses hunk headers, defaulting omitted counts to one', () => {
+		assert.deepStrictEqual(parseDiffHunks(DIFF), [
+			{ oldStart: 2, oldCount: 0, newStart: 3, newCount: 2 },
+			{ oldStart: 5, oldCount: 2, newStart: 7, newCount: 1 },
+			{ oldStart: 9, oldCount: 3, newStart: 9, newCount: 0 },
+		]);
+	});
+
+	test('shifts unchanged lines past insertions and deletions', () => {
+		const hunks = parseDiffHunks(DIFF);
+		assert.deepStrictEqual(mapLineThroughHunks(hunks, 1), { line: 1, status: 'unchanged' });
+		assert.deepStrictEqual(mapLineThroughHunks(hunks, 2), { line: 2, status: 'unchanged' });
+		assert.deepStrictEqual(mapLineThroughHunks(hunks, 3), { line: 5, status: 'unchanged' });
+		assert.deepStrictEqual(mapLineThroughHunks(hunks, 8), { line: 9, status: 'unchanged' });
+		assert.deepStrictEqual(mapLineThroughHunks(hunks, 12), { line: 10, status: 'unchanged' });
+	});
+
+	test('maps overwritten lines onto their replacement', () => {
+		const hunks = parseDiffHunks(DIFF);
+		assert.deepStrictEqual(mapLineThroughHunks(hunks, 5), { line: 7, status: 'changed' });
+		assert.deepStrictEqual(mapLineThroughHunks(hunks, 6), { line: 7, status: 'changed' });
+	});
+
+	test('maps deleted lines onto the line after the deletion', () => {
+		const hunks = parseDiffHunks(DIFF);
+		assert.deepStrictEqual(mapLineThroughHunks(hunks, 10), { line: 10, status: 'removed' });
+	});
+});
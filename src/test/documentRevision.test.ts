@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseDocumentRevision } from '../documentRevision';
+
+const FILE = path.resolve('/repo/src/app.ts');
+
+function gitUri(query: object) {
+	return { scheme: 'git', fsPath: FILE, query: JSON.stringify(query) };
+}
+
+suite('documentRevision', () => {
+	test('file URIs are the working tree', () => {
+		assert.deepStrictEqual(
+			parseDocumentRevision({ scheme: 'file', fsPath: FILE, query: '' }),
+			{ kind: 'workingTree', filePath: FILE }
+		);
+	});
+
+	test('git URIs name a commit or the index', () => {
+		assert.deepStrictEqual(parseDocumentRevision(gitUri({ path: FILE, ref: 'a1b2c3d' })), { kind: 'commit', filePath: FILE, revision: 'a1b2c3d' });
+		assert.deepStrictEqual(parseDocumentRevision(gitUri({ path: FILE, ref: 'HEAD~1' })), { kind: 'commit', filePath: FILE, revision: 'HEAD~1' });
+		assert.deepStrictEqual(parseDocumentRevision(gitUri({ path: FILE, ref: '~' })), { kind: 'index', filePath: FILE });
+		assert.deepStrictEqual(parseDocumentRevision(gitUri({ path: FILE, ref: '' })), { kind: 'index', filePath: FILE });
+	});
+
+	test('relative paths are resolved against the root path', () => {
+		const uri = { scheme: 'review', fsPath: FILE, query: JSON.stringify({ path: 'src/app.ts', commit: 'f00d', rootPath: path.resolve('/repo') }) };
+		assert.deepStrictEqual(parseDocumentRevision(uri), { kind: 'commit', filePath: FILE, revision: 'f00d' });
+	});
+
+	test('documents without a file revision are skipped', () => {
+		assert.strictEqual(parseDocumentRevision({ scheme: 'untitled', fsPath: 'Untitled-1', query: '' }), undefined);
+		assert.strictEqual(parseDocumentRevision({ scheme: 'output', fsPath: 'extension-output', query: '' }), undefined);
+		assert.strictEqual(parseDocumentRevision({ scheme: 'commit-hash-highlighter', fsPath: '/a1b2c3d.diff', query: JSON.stringify({ hash: 'a1b2c3d', cwd: '/repo' }) }), undefined);
+		assert.strictEqual(parseDocumentRevision(gitUri({ path: FILE })), undefined);
+	});
+});
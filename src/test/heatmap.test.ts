@@ -0,0 +1,21 @@
+import * as assert from 'assert';
+import { heatmapColor, interpolateGradient } from '../heatmap';
+
+suite('heatmap', () => {
+	test('interpolates between evenly spaced gradient colors', () => {
+		assert.strictEqual(interpolateGradient(['#000000', '#ffffff'], 0.5), '#808080');
+		assert.strictEqual(interpolateGradient(['#ff0000', '#00ff00', '#0000ff'], 0.5), '#00ff00');
+		assert.strictEqual(interpolateGradient(['#ff0000', '#00ff00', '#0000ff'], 1), '#0000ff');
+	});
+
+	test('new lines get the first color and lines past the maximum age the last', () => {
+		const gradient = ['#ff4500', '#1e90ff'];
+		assert.strictEqual(heatmapColor(0, 100, gradient), '#ff4500');
+		assert.strictEqual(heatmapColor(500, 100, gradient), '#1e90ff');
+	});
+
+	test('rounds ages to a limited number of steps', () => {
+		const gradient = ['#000000', '#ffffff'];
+		assert.strictEqual(heatmapColor(50, 1000, gradient), heatmapColor(0, 1000, gradient));
+	});
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AUTHOR_RECORD_FORMAT, matchesLineFilter, parseAuthorRecords, parseDateBound, parseLineFilter } from '../lineFilter';
+
+const NOW = new Date(2024, 5, 15, 12, 0, 0).getTime();
+const DAY = 24 * 60 * 60;
+
+suite('lineFilter', () => {
+	test('parses ages relative to now', () => {
+		assert.strictEqual(parseDateBound('2w', NOW, false), NOW / 1000 - 14 * DAY);
+		assert.strictEqual(parseDateBound(' 30D ', NOW, false), NOW / 1000 - 30 * DAY);
+	});
+
+	test('a calendar date as upper bound covers the whole day', () => {
+		const start = new Date(2024, 0, 31).getTime() / 1000;
+		assert.strictEqual(parseDateBound('2024-01-31', NOW, false), start);
+		assert.strictEqual(parseDateBound('2024-01-31', NOW, true), start + DAY - 1);
+	});
+
+	test('rejects anything else', () => {
+		assert.throws(() => parseDateBound('last tuesday', NOW, false));
+		assert.strictEqual(parseDateBound('  ', NOW, false), undefined);
+	});
+
+	test('matches author names and emails case-insensitively', () => {
+		const author = { names: ['Alice Smith'], mails: ['alice@example.com'], time: NOW / 1000 };
+		assert.ok(matchesLineFilter(author, parseLineFilter({ author: 'SMITH', since: '', until: '' }, NOW)));
+		assert.ok(matchesLineFilter(author, parseLineFilter({ author: 'example.com', since: '', until: '' }, NOW)));
+		assert.ok(!matchesLineFilter(author, parseLineFilter({ author: 'bob', since: '', until: '' }, NOW)));
+	});
+
+	test('matches the date range inclusively', () => {
+		const author = { names: ['Bob'], mails: ['bob@example.com'], time: new Date(2024, 0, 31, 18).getTime() / 1000 };
+		assert.ok(matchesLineFilter(author, parseLineFilter({ author: '', since: '2024-01-31', until: '2024-01-31' }, NOW)));
+		assert.ok(!matchesLineFilter(author, parseLineFilter({ author: '', since: '2w', until: '' }, NOW)));
+	});
+});
+
+suite('lineFilter mailmap aliases', () => {
+	let repository: string;
+
+	function git(...args: string[]): string {
+		return cp.execFileSync('git', args, {
+			cwd: repository,
+			encoding: 'utf8',
+			env: {
+				...process.env,
+				GIT_AUTHOR_NAME: 'bobby', GIT_AUTHOR_EMAIL: 'bob@old.example',
+				GIT_COMMITTER_NAME: 'bobby', GIT_COMMITTER_EMAIL: 'bob@old.example'
+			}
+		}).trim();
+	}
+
+	setup(() => {
+		repository = fs.mkdtempSync(path.join(os.tmpdir(), 'line-filter-test-'));
+		git('init', '--quiet', '--initial-branch=main');
+		git('config', 'commit.gpgsign', 'false');
+	});
+
+	teardown(() => {
+		fs.rmSync(repository, { recursive: true, force: true });
+	});
+
+	test('matches a commit under its recorded and its mailmapped author', () => {
+		fs.writeFileSync(path.join(repository, '.mailmap'), 'Bob Builder <bob@example.com> <bob@old.example>\n');
+		git('add', '.');
+		git('commit', '--quiet', '-m', 'Add mailmap');
+		const hash = git('rev-parse', 'HEAD');
+
+		const authors = parseAuthorRecords(git('log', '--no-walk=unsorted', `--format=${AUTHOR_RECORD_FORMAT}`, hash));
+		const author = authors.get(hash);
+		assert.ok(author);
+		for (const needle of ['BOBBY', 'old.example', 'builder', 'bob@example.com']) {
+			assert.ok(matchesLineFilter(author, parseLineFilter({ author: needle, since: '', until: '' }, NOW)), needle);
+		}
+		assert.ok(!matchesLineFilter(author, parseLineFilter({ author: 'alice', since: '', until: '' }, NOW)));
+	});
+});
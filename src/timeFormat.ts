@@ -0,0 +1,22 @@
+const UNITS: [string, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60]
+];
+
+/**
+ * Format a timestamp (seconds since the epoch) relative to now, e.g. "3 weeks ago".
+ */
+export function formatRelativeTime(epochSeconds: number, now: number = Date.now()): string {
+  const elapsed = Math.max(0, Math.floor(now / 1000) - epochSeconds);
+  for (const [unit, seconds] of UNITS) {
+    const count = Math.floor(elapsed / seconds);
+    if (count >= 1) {
+      return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+    }
+  }
+  return 'just now';
+}